@@ -1,69 +1,679 @@
 #!/usr/bin/env node
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
 import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
 import { z } from 'zod';
 
-const EXTENSION_PORT = parseInt(process.env.VSCODE_TERMINAL_MCP_PORT || '9876', 10);
+// Every editor window running the extension publishes a record here, see src/discovery.ts
+const DISCOVERY_DIR = path.join(os.homedir(), '.terminal-hook', 'instances');
 
-async function sendToExtension(request) {
-  return new Promise((resolve, reject) => {
-    const socket = net.createConnection({ port: EXTENSION_PORT, host: '127.0.0.1' }, () => {
-      socket.write(JSON.stringify(request) + '\n');
-    });
+// Used when no window has published a record, e.g. an older extension version.
+// VSCODE_TERMINAL_MCP_SOCKET selects the socket transport over the TCP port.
+const DEFAULT_PORT = parseInt(process.env.VSCODE_TERMINAL_MCP_PORT || '9876', 10);
+const DEFAULT_HOST = process.env.VSCODE_TERMINAL_MCP_HOST || '127.0.0.1';
+const DEFAULT_SOCKET = process.env.VSCODE_TERMINAL_MCP_SOCKET;
+const DEFAULT_TOKEN = process.env.VSCODE_TERMINAL_MCP_TOKEN;
+
+// Pin the bridge to one window. Without either, the window whose workspace
+// contains the working directory is used, or else every window is merged.
+const TARGET_WORKSPACE = process.env.TERMINAL_HOOK_WORKSPACE;
+const TARGET_PID = process.env.TERMINAL_HOOK_PID ? parseInt(process.env.TERMINAL_HOOK_PID, 10) : undefined;
+
+// Same code as AMBIGUOUS_TERMINAL_ERROR in src/services/MCPServer.ts
+const AMBIGUOUS_TERMINAL_ERROR = -32002;
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.VSCODE_TERMINAL_MCP_TIMEOUT_MS || '5000', 10);
+const MAX_WAIT_MS = 300000;
+// run_in_terminal waits for the user to confirm in the editor before running
+const CONFIRMATION_TIMEOUT_MS = 120000;
+// Delays between attempts to restore a dropped connection with subscriptions
+const RECONNECT_MIN_MS = 250;
+const RECONNECT_MAX_MS = 30000;
+
+// Responses are matched to requests by id across all connections, and
+// messages without an id are server-initiated notifications.
+const pendingRequests = new Map();
+const connections = new Map();
+let nextRequestId = 1;
+let notificationHandler = () => {};
 
-    let data = '';
-    
-    socket.on('data', (chunk) => {
-      data += chunk.toString();
-      const lines = data.split('\n');
-      for (const line of lines) {
-        if (line.trim()) {
-          try {
-            const response = JSON.parse(line);
-            socket.end();
-            resolve(response);
-            return;
-          } catch {}
+// One persistent connection per editor window
+class ExtensionConnection {
+  constructor(instance) {
+    this.instance = instance;
+    this.socket = undefined;
+    this.connecting = undefined;
+    this.subscriptions = new Set();
+    this.closed = false;
+    this.reconnectTimer = undefined;
+    this.reconnectDelay = RECONNECT_MIN_MS;
+  }
+
+  get label() {
+    const { workspaceFolders = [], pid } = this.instance;
+    if (workspaceFolders.length > 0) {
+      return path.basename(workspaceFolders[0]);
+    }
+    return pid ? `pid ${pid}` : this.address;
+  }
+
+  get address() {
+    const { socketPath, port, host } = this.instance;
+    return socketPath ?? `${host}:${port}`;
+  }
+
+  connect() {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise((resolve, reject) => {
+      const { socketPath, port, host, token = DEFAULT_TOKEN } = this.instance;
+      // Both transports carry the same newline-delimited JSON-RPC
+      const options = socketPath ? { path: socketPath } : { port, host };
+      const socket = net.createConnection(options, async () => {
+        try {
+          await this.authenticate(socket, token);
+        } catch (err) {
+          this.connecting = undefined;
+          socket.destroy();
+          reject(err);
+          return;
         }
-      }
+
+        this.socket = socket;
+        this.connecting = undefined;
+
+        // Subscriptions live on the extension side of the connection, so restore them
+        for (const uri of this.subscriptions) {
+          writeMessage(socket, {
+            jsonrpc: '2.0',
+            id: nextRequestId++,
+            method: 'resources/subscribe',
+            params: { uri },
+          });
+        }
+
+        resolve(socket);
+      });
+
+      let data = '';
+
+      socket.on('data', (chunk) => {
+        data += chunk.toString();
+        const lines = data.split('\n');
+        data = lines.pop();
+        for (const line of lines) {
+          if (line.trim()) {
+            handleExtensionMessage(line);
+          }
+        }
+      });
+
+      socket.on('error', (err) => {
+        if (this.connecting) {
+          this.connecting = undefined;
+          reject(new Error(`Failed to connect to VSCode extension on ${this.address}: ${err.message}. Make sure the extension is running.`));
+        }
+      });
+
+      socket.on('close', () => {
+        const wasOpen = this.socket === socket;
+        if (wasOpen) {
+          this.socket = undefined;
+        }
+        for (const [id, pending] of pendingRequests) {
+          if (pending.connection === this) {
+            clearTimeout(pending.timer);
+            pending.reject(new Error('Connection to VSCode extension closed'));
+            pendingRequests.delete(id);
+          }
+        }
+        if (wasOpen) {
+          this.scheduleReconnect();
+        }
+      });
     });
 
-    socket.on('error', (err) => {
-      reject(new Error(`Failed to connect to VSCode extension: ${err.message}. Make sure the extension is running.`));
+    return this.connecting;
+  }
+
+  // The extension answers nothing else until the connection presents its token
+  authenticate(socket, token) {
+    const id = nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(id);
+        reject(new Error('Authentication with VSCode extension timed out'));
+      }, REQUEST_TIMEOUT_MS);
+
+      pendingRequests.set(id, {
+        resolve: (response) => {
+          if (response.error) {
+            reject(new Error(`VSCode extension rejected the connection: ${response.error.message}. Reload the editor window so the MCP config gets a fresh token.`));
+          } else {
+            resolve();
+          }
+        },
+        reject,
+        timer,
+        connection: this,
+      });
+      writeMessage(socket, {
+        jsonrpc: '2.0',
+        id,
+        method: 'terminalHook/authenticate',
+        params: { token },
+      });
     });
+  }
+
+  // The extension drops bridge sockets whenever it restarts its server, e.g. on
+  // a settings change. A client that only listens for resource updates sends
+  // no request that would reconnect, so reconnect on its behalf.
+  scheduleReconnect() {
+    if (this.closed || this.reconnectTimer || this.subscriptions.size === 0) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+
+      const { pid } = this.instance;
+      if (pid !== undefined) {
+        if (!isProcessAlive(pid)) {
+          return;
+        }
+        // The restarted server may listen on another port
+        this.instance = readInstances().find(instance => instance.pid === pid) ?? this.instance;
+      }
+
+      try {
+        await this.connect();
+        this.reconnectDelay = RECONNECT_MIN_MS;
+      } catch {
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+        this.scheduleReconnect();
+      }
+    }, this.reconnectDelay);
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.socket?.destroy();
+  }
+
+  async send(request, timeoutMs = REQUEST_TIMEOUT_MS) {
+    const socket = await this.connect();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(request.id);
+        reject(new Error('Connection to VSCode extension timed out'));
+      }, timeoutMs);
 
-    socket.on('timeout', () => {
-      socket.destroy();
-      reject(new Error('Connection to VSCode extension timed out'));
+      pendingRequests.set(request.id, { resolve, reject, timer, connection: this });
+      writeMessage(socket, request);
     });
+  }
 
-    socket.setTimeout(5000);
-  });
-}
+  async request(method, params, timeoutMs) {
+    const response = await this.send({
+      jsonrpc: '2.0',
+      id: nextRequestId++,
+      method,
+      params,
+    }, timeoutMs);
+
+    if (response.error) {
+      const { message, code, data } = response.error;
+      throw Object.assign(new Error(message), { code, data });
+    }
+
+    return response.result;
+  }
 
-async function callExtensionTool(toolName, args) {
-  const request = {
-    jsonrpc: '2.0',
-    id: Date.now(),
-    method: 'tools/call',
-    params: {
+  async callTool(toolName, args, timeoutMs) {
+    const result = await this.request('tools/call', {
       name: toolName,
       arguments: args,
-    },
-  };
+    }, timeoutMs);
+
+    if (result?.content?.[0]?.text) {
+      return JSON.parse(result.content[0].text);
+    }
+
+    return result;
+  }
+}
 
-  const response = await sendToExtension(request);
+function writeMessage(socket, message) {
+  socket.write(JSON.stringify(message) + '\n');
+}
 
-  if (response.error) {
-    throw new Error(response.error.message);
+function handleExtensionMessage(line) {
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return;
   }
 
-  if (response.result?.content?.[0]?.text) {
-    return JSON.parse(response.result.content[0].text);
+  if (message.id !== undefined && message.id !== null) {
+    const pending = pendingRequests.get(message.id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pendingRequests.delete(message.id);
+      pending.resolve(message);
+    }
+    return;
   }
-  
-  return response.result;
+
+  if (message.method) {
+    notificationHandler(message);
+  }
+}
+
+function isProcessAlive(pid) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+// Live editor windows, most recently started first. Records left behind by
+// windows that exited without cleaning up are deleted.
+function readInstances() {
+  let files;
+  try {
+    files = fs.readdirSync(DISCOVERY_DIR);
+  } catch {
+    return [];
+  }
+
+  const instances = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    const recordPath = path.join(DISCOVERY_DIR, file);
+    let record;
+    try {
+      record = JSON.parse(fs.readFileSync(recordPath, 'utf-8'));
+    } catch {
+      continue;
+    }
+
+    if (!isProcessAlive(record.pid)) {
+      fs.rmSync(recordPath, { force: true });
+      continue;
+    }
+
+    instances.push(record);
+  }
+
+  return instances.sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt)));
+}
+
+function isInside(folder, target) {
+  const relative = path.relative(folder, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function selectInstances() {
+  const instances = readInstances();
+
+  if (instances.length === 0) {
+    return [DEFAULT_SOCKET
+      ? { socketPath: DEFAULT_SOCKET, workspaceFolders: [] }
+      : { port: DEFAULT_PORT, host: DEFAULT_HOST, workspaceFolders: [] }];
+  }
+
+  if (TARGET_PID !== undefined) {
+    const match = instances.find(instance => instance.pid === TARGET_PID);
+    if (!match) {
+      throw new Error(`No editor window with pid ${TARGET_PID} is running Terminal Hook`);
+    }
+    return [match];
+  }
+
+  const workspace = path.resolve(TARGET_WORKSPACE || process.cwd());
+  const match = instances.find(instance => instance.workspaceFolders.some(folder => isInside(folder, workspace)));
+  if (match) {
+    return [match];
+  }
+  if (TARGET_WORKSPACE) {
+    throw new Error(`No editor window running Terminal Hook has ${TARGET_WORKSPACE} open`);
+  }
+
+  return instances;
+}
+
+// Reuses connections to windows that are still selected and closes the rest
+function connectionsFor(instances) {
+  const selected = instances.map((instance) => {
+    const key = instance.socketPath ?? `${instance.host}:${instance.port}`;
+    let connection = connections.get(key);
+
+    if (!connection || connection.instance.pid !== instance.pid) {
+      connection?.close();
+      connection = new ExtensionConnection(instance);
+      connections.set(key, connection);
+    }
+    connection.instance = instance;
+
+    return connection;
+  });
+
+  for (const [key, connection] of connections) {
+    if (!selected.includes(connection)) {
+      connection.close();
+      connections.delete(key);
+    }
+  }
+
+  return selected;
+}
+
+async function listTerminalsByWindow(targets) {
+  const results = await Promise.allSettled(
+    targets.map(connection => connection.callTool('list_terminals', { include_closed: true }))
+  );
+
+  return results.flatMap((result, index) =>
+    result.status === 'fulfilled' && result.value.success
+      ? result.value.terminals.map(terminal => ({ ...terminal, connection: targets[index] }))
+      : []
+  );
+}
+
+// Same lookup as the extension's resolveTerminal: exact id, exact name, process
+// id, then a name containing the search term, preferring open terminals over
+// closed ones. The active terminal is left to the window it is in, so the
+// keyword only works with a single window. Throws when the name is ambiguous
+// across windows.
+function findTerminal(terminals, nameOrId) {
+  const search = nameOrId.trim().toLowerCase();
+  const steps = [
+    t => t.id === nameOrId,
+    t => t.name.toLowerCase() === search,
+    t => /^\d+$/.test(search) && t.processId === Number(search),
+    t => search.length > 0 && t.name.toLowerCase().includes(search),
+  ];
+
+  for (const matches of steps) {
+    const candidates = terminals.filter(matches);
+    const open = candidates.filter(t => !t.closed);
+    const preferred = open.length > 0 ? open : candidates;
+
+    if (preferred.length === 1) {
+      return preferred[0];
+    }
+    if (preferred.length > 1) {
+      throw Object.assign(new Error(`"${nameOrId}" matches ${preferred.length} terminals. Use one of the candidate ids instead.`), {
+        code: AMBIGUOUS_TERMINAL_ERROR,
+        data: {
+          terminal_name: nameOrId,
+          candidates: preferred.map(t => ({
+            id: t.id,
+            name: t.name,
+            processId: t.processId,
+            cwd: t.cwd,
+            window: t.connection.label,
+            ...(t.closed && { closed: true }),
+          })),
+        },
+      });
+    }
+  }
+
+  return undefined;
+}
+
+// How to combine the results of tools that are not about a single terminal
+// when talking to several windows at once
+const MERGED_TOOLS = {
+  list_terminals: (results) => {
+    const terminals = results.flatMap(({ value, connection }) =>
+      (value.terminals ?? []).map(terminal => ({ ...terminal, window: connection.label }))
+    );
+    return { success: true, count: terminals.length, terminals };
+  },
+
+  get_recent_failures: (results, args) => {
+    const failures = results
+      .flatMap(({ value }) => value.failures ?? [])
+      .sort((a, b) => b.endedAt.localeCompare(a.endedAt))
+      .slice(0, args.limit);
+    return { success: true, count: failures.length, failures };
+  },
+
+  get_last_failure: (results) => {
+    const [latest] = results
+      .filter(({ value }) => value.failure)
+      .sort((a, b) => b.value.failure.endedAt.localeCompare(a.value.failure.endedAt));
+    return latest ? latest.value : results[0].value;
+  },
+
+  search_terminal_output: (results, args) => {
+    const valid = results.filter(({ value }) => value.success);
+    if (valid.length === 0) {
+      return results[0].value;
+    }
+
+    const all = valid.flatMap(({ value }) => value.matches);
+    const matches = all.slice(0, args.max_results);
+    return {
+      success: true,
+      count: matches.length,
+      truncated: valid.some(({ value }) => value.truncated) || all.length > matches.length,
+      matches,
+    };
+  },
+
+  // Lines start with an ISO timestamp, so they interleave by sorting as text
+  get_timeline: (results, args) => {
+    const valid = results.filter(({ value }) => value.success);
+    if (valid.length === 0) {
+      return results[0].value;
+    }
+
+    const all = valid
+      .flatMap(({ value }) => (value.output ? value.output.split('\n') : []))
+      .sort((a, b) => a.slice(0, 24).localeCompare(b.slice(0, 24)));
+    const lines = all.length <= args.limit ? all : args.since !== undefined ? all.slice(0, args.limit) : all.slice(-args.limit);
+
+    return {
+      success: true,
+      count: lines.length,
+      truncated: valid.some(({ value }) => value.truncated) || all.length > lines.length,
+      terminals: valid.flatMap(({ value, connection }) => value.terminals.map(t => ({ ...t, window: connection.label }))),
+      ...(valid[0].value.range && { range: valid[0].value.range }),
+      output: lines.join('\n'),
+    };
+  },
+
+  list_tasks: (results, args) => {
+    const tasks = results
+      .flatMap(({ value, connection }) => (value.tasks ?? []).map(task => ({ ...task, window: connection.label })))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, args.limit);
+    return { success: true, count: tasks.length, tasks };
+  },
+
+  // The latest run of the task in any window
+  get_task_output: (results) => {
+    const [latest] = results
+      .filter(({ value }) => value.success)
+      .sort((a, b) => b.value.task.startedAt.localeCompare(a.value.task.startedAt));
+    if (latest) {
+      return { ...latest.value, window: latest.connection.label };
+    }
+
+    const available = new Set(results.flatMap(({ value }) => value.available_tasks ?? []));
+    return { ...results[0].value, available_tasks: [...available] };
+  },
+
+  // The named session, or else the latest one, in any window
+  get_debug_output: (results) => {
+    const sessions = results.flatMap(({ value, connection }) =>
+      (value.sessions ?? []).map(session => ({ ...session, window: connection.label }))
+    );
+    const [latest] = results
+      .filter(({ value }) => value.success)
+      .sort((a, b) => b.value.session.startedAt.localeCompare(a.value.session.startedAt));
+
+    return latest ? { ...latest.value, window: latest.connection.label, sessions } : { ...results[0].value, sessions };
+  },
+};
+
+// Sums the per-window redaction reports of merged results
+function mergeRedactions(results) {
+  const byType = {};
+  for (const { value } of results) {
+    for (const [type, count] of Object.entries(value.redactions?.by_type ?? {})) {
+      byType[type] = (byType[type] ?? 0) + count;
+    }
+  }
+
+  const total = Object.values(byType).reduce((sum, count) => sum + count, 0);
+  return total > 0 ? { total, by_type: byType } : undefined;
+}
+
+async function callExtensionTool(toolName, args, timeoutMs) {
+  const targets = connectionsFor(selectInstances());
+
+  if (targets.length === 1) {
+    return targets[0].callTool(toolName, args, timeoutMs);
+  }
+
+  if (args.terminal_name) {
+    const terminals = await listTerminalsByWindow(targets);
+    const terminal = findTerminal(terminals, args.terminal_name);
+
+    if (!terminal) {
+      return {
+        success: false,
+        error: `Terminal "${args.terminal_name}" not found`,
+        available_terminals: terminals.map(t => t.name || t.id),
+      };
+    }
+
+    return terminal.connection.callTool(toolName, args, timeoutMs);
+  }
+
+  const merge = MERGED_TOOLS[toolName];
+  if (!merge) {
+    // e.g. run_in_terminal in a new terminal: use the most recently opened window
+    return targets[0].callTool(toolName, args, timeoutMs);
+  }
+
+  let calls = targets.map(connection => ({ connection, args }));
+
+  // Several named terminals: ask each window only about its own, by id
+  if (args.terminal_names?.length) {
+    const terminals = await listTerminalsByWindow(targets);
+    const idsByWindow = new Map();
+
+    for (const name of args.terminal_names) {
+      const terminal = findTerminal(terminals, name);
+      if (!terminal) {
+        return {
+          success: false,
+          error: `Terminal "${name}" not found`,
+          available_terminals: terminals.map(t => t.name || t.id),
+        };
+      }
+      idsByWindow.set(terminal.connection, [...(idsByWindow.get(terminal.connection) ?? []), terminal.id]);
+    }
+
+    calls = [...idsByWindow].map(([connection, ids]) => ({ connection, args: { ...args, terminal_names: ids } }));
+  }
+
+  const settled = await Promise.allSettled(calls.map(call => call.connection.callTool(toolName, call.args, timeoutMs)));
+  const results = settled.flatMap((result, index) =>
+    result.status === 'fulfilled' ? [{ value: result.value, connection: calls[index].connection }] : []
+  );
+
+  if (results.length === 0) {
+    throw settled[0].reason;
+  }
+
+  const merged = merge(results, args);
+  const redactions = merged.redactions ?? mergeRedactions(results);
+  return redactions ? { ...merged, redactions } : merged;
+}
+
+// Resource URIs are terminal://<terminal-id>/<view>
+async function connectionForResource(uri) {
+  const targets = connectionsFor(selectInstances());
+  if (targets.length === 1) {
+    return targets[0];
+  }
+
+  const terminalId = decodeURIComponent(new URL(uri).host);
+  const terminal = (await listTerminalsByWindow(targets)).find(t => t.id === terminalId);
+  if (!terminal) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  return terminal.connection;
+}
+
+async function listResources() {
+  const targets = connectionsFor(selectInstances());
+  const results = await Promise.allSettled(targets.map(connection => connection.request('resources/list', {})));
+  const fulfilled = results.filter(result => result.status === 'fulfilled');
+
+  if (fulfilled.length === 0) {
+    throw results[0].reason;
+  }
+
+  return { resources: fulfilled.flatMap(result => result.value.resources) };
+}
+
+// getTimeoutMs lets long-running tools extend the default request timeout
+function proxyTool(server, name, description, schema, getTimeoutMs) {
+  server.tool(name, description, schema, async (args) => {
+    try {
+      const result = await callExtensionTool(name, args, getTimeoutMs?.(args));
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error) {
+      const result = error.code === AMBIGUOUS_TERMINAL_ERROR
+        ? { success: false, error: error.message, ...error.data }
+        : { success: false, error: error.message, hint: 'Make sure the Terminal Hook extension is running in VSCode/Cursor' };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+        isError: true,
+      };
+    }
+  });
 }
 
 async function main() {
@@ -72,67 +682,225 @@ async function main() {
     version: '1.0.0',
   });
 
-  server.tool(
+  proxyTool(
+    server,
     'list_terminals',
-    'List all active VSCode terminals with their metadata',
-    {},
-    async () => {
-      try {
-        const result = await callExtensionTool('list_terminals', {});
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          }],
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: error.message,
-              hint: 'Make sure the Terminal Hook extension is running in VSCode/Cursor',
-            }, null, 2),
-          }],
-          isError: true,
-        };
-      }
+    'List all active VSCode terminals with their metadata. Closed terminals are kept for a while and can be read like open ones.',
+    {
+      include_closed: z.boolean().optional().default(false).describe('Also list recently closed terminals, including ones from before the window was reloaded'),
     }
   );
 
-  server.tool(
+  proxyTool(
+    server,
     'get_terminal_output',
-    'Get recent output from a VSCode terminal buffer. Use list_terminals first to see available terminals.',
+    'Get recent output from a VSCode terminal buffer. Use list_terminals first to see available terminals. Pass the returned next_cursor as since to only fetch new output.',
+    {
+      terminal_name: z.string().describe('Terminal ID, name (e.g., "zsh", "bash", "node"), process ID or "active" for the focused terminal. Use list_terminals to see available options.'),
+      lines: z.number().optional().default(100).describe('Number of lines to return (default: 100). With since, the maximum number of lines to return.'),
+      since: z.union([z.number(), z.string()]).optional().describe('A number is a cursor from a previous next_cursor and returns only lines captured after it. A string is a time: an ISO timestamp, a duration before now like "2m" or "1h30m", or a local time of day like "14:32". Returns up to lines lines captured from then.'),
+      until: z.string().optional().describe('Only lines captured up to this time, in the same forms as since. Without since, returns the last lines lines before it.'),
+      format: z.enum(['clean', 'raw', 'preserve_whitespace', 'html']).optional().default('clean').describe('clean (default): ANSI codes and extra whitespace stripped. raw: output as written, escape sequences included. preserve_whitespace: ANSI codes stripped, indentation and column alignment kept. html: like preserve_whitespace with colours as styled spans.'),
+      max_chars: z.number().optional().describe('Character budget for the output. Larger output keeps its head, tail and error lines, with repeated lines collapsed and the rest replaced by markers saying what was left out. Clean format only.'),
+      max_tokens: z.number().optional().describe('Like max_chars, in tokens of about 4 characters'),
+      summarize: z.boolean().optional().default(false).describe('Collapse runs of repeated or near-identical lines, such as progress updates, even when within budget (default: false). Clean format only.'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_terminal_screen',
+    'Get what is currently displayed in a VSCode terminal, reconstructed by replaying its output through a terminal emulator. Use for progress bars, spinners and full-screen programs (top, vim, less) whose raw output is unreadable.',
+    {
+      terminal_name: z.string().describe('Terminal name or ID. Use list_terminals to see available options.'),
+      scrollback_lines: z.number().optional().default(0).describe('Number of lines that scrolled off the top of the screen to include, with redraws already applied (default: 0)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'list_commands',
+    'List the commands run in a VSCode terminal (command line, cwd, timing, exit code), detected via shell integration.',
     {
-      terminal_name: z.string().describe('Terminal name or ID (e.g., "zsh", "bash", "node"). Use list_terminals to see available options.'),
-      lines: z.number().optional().default(100).describe('Number of lines to return (default: 100)'),
+      terminal_name: z.string().describe('Terminal name or ID. Use list_terminals to see available options.'),
+      limit: z.number().optional().default(20).describe('Number of most recent commands to return (default: 20)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_command_output',
+    'Get the output of a single command run in a VSCode terminal. Use list_commands to see command IDs.',
+    {
+      terminal_name: z.string().describe('Terminal name or ID. Use list_terminals to see available options.'),
+      command_id: z.number().optional().describe('Command ID from list_commands (default: most recent command)'),
+      lines: z.number().optional().describe('Number of lines to return from the end of the command output (default: all)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_last_failure',
+    'Get the most recent command that exited with a non-zero code across all terminals, with the tail of its output.',
+    {
+      tail_lines: z.number().optional().default(50).describe('Number of output lines to include from the end of the failed command (default: 50)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_recent_failures',
+    'Get the most recent commands that exited with a non-zero code, newest first.',
+    {
+      limit: z.number().optional().default(5).describe('Maximum number of failures to return (default: 5)'),
+      tail_lines: z.number().optional().default(20).describe('Number of output lines to include per failure (default: 20)'),
+      terminal_name: z.string().optional().describe('Only return failures from this terminal name or ID'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'search_terminal_output',
+    'Search captured terminal output for a literal string or regular expression. Returns matching lines with line numbers, terminal IDs, timestamps and surrounding context.',
+    {
+      pattern: z.string().describe('Text or regular expression to search for'),
+      terminal_name: z.string().optional().describe('Only search this terminal name or ID (default: all terminals)'),
+      regex: z.boolean().optional().default(false).describe('Treat pattern as a regular expression (default: false)'),
+      case_sensitive: z.boolean().optional().default(false).describe('Match case exactly (default: false)'),
+      context_before: z.number().optional().default(0).describe('Number of lines to include before each match (default: 0)'),
+      context_after: z.number().optional().default(0).describe('Number of lines to include after each match (default: 0)'),
+      max_results: z.number().optional().default(100).describe('Maximum number of matches to return (default: 100)'),
+      since: z.string().optional().describe('Only search lines captured from this time: an ISO timestamp, a duration before now like "5m", or a local time of day like "14:32"'),
+      until: z.string().optional().describe('Only search lines captured up to this time, in the same forms as since'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_timeline',
+    'Merge the output of several VSCode terminals into one chronological stream, each line prefixed with its time and terminal. Use to correlate a frontend, backend and worker running in separate terminals.',
+    {
+      terminal_names: z.array(z.string()).optional().describe('Terminal names or IDs to merge (default: all open terminals)'),
+      include_closed: z.boolean().optional().default(false).describe('Also merge recently closed terminals when terminal_names is not given (default: false)'),
+      since: z.string().optional().describe('Only lines captured from this time: an ISO timestamp, a duration before now like "5m", or a local time of day like "14:32"'),
+      until: z.string().optional().describe('Only lines captured up to this time, in the same forms as since'),
+      pattern: z.string().optional().describe('Regular expression lines must match, e.g. "error|request id 42"'),
+      case_sensitive: z.boolean().optional().default(false).describe('Match pattern case exactly (default: false)'),
+      limit: z.number().optional().default(200).describe('Maximum number of lines to return: the first ones from since, or else the most recent (default: 200)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'wait_for_output',
+    'Wait until new output in a VSCode terminal matches a regular expression, a command in it finishes, or the timeout elapses. Use after starting a dev server or test run instead of polling get_terminal_output.',
+    {
+      terminal_name: z.string().describe('Terminal name or ID. Use list_terminals to see available options.'),
+      pattern: z.string().describe('Regular expression to wait for, e.g. "ready in|error"'),
+      timeout_ms: z.number().optional().default(30000).describe('Maximum time to wait in milliseconds (default: 30000, max: 300000)'),
+      case_sensitive: z.boolean().optional().default(false).describe('Match case exactly (default: false)'),
+      context_lines: z.number().optional().default(5).describe('Number of lines to return around the match (default: 5)'),
     },
-    async (args) => {
-      try {
-        const result = await callExtensionTool('get_terminal_output', args);
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          }],
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: false,
-              error: error.message,
-              hint: 'Make sure the Terminal Hook extension is running in VSCode/Cursor',
-            }, null, 2),
-          }],
-          isError: true,
-        };
-      }
+    (args) => Math.min(args.timeout_ms, MAX_WAIT_MS) + REQUEST_TIMEOUT_MS
+  );
+
+  proxyTool(
+    server,
+    'run_in_terminal',
+    'Run a command in a VSCode terminal and return its output and exit code once it finishes. Requires the "terminalHook.runInTerminal.enabled" setting, and the user must confirm every command.',
+    {
+      command: z.string().describe('Command line to execute'),
+      terminal_name: z.string().optional().describe('Existing terminal name or ID to run in. Omit to create a new terminal.'),
+      new_terminal_name: z.string().optional().describe('Name for the new terminal when terminal_name is omitted (default: "Terminal Hook")'),
+      timeout_ms: z.number().optional().default(60000).describe('Maximum time to wait for the command to finish in milliseconds (default: 60000, max: 300000)'),
+    },
+    (args) => Math.min(args.timeout_ms, MAX_WAIT_MS) + CONFIRMATION_TIMEOUT_MS
+  );
+
+  proxyTool(
+    server,
+    'list_tasks',
+    'List recent VSCode task runs (builds, test runs, watchers) with their status, exit code, terminal and the problems their problem matchers reported.',
+    {
+      limit: z.number().optional().default(20).describe('Maximum number of runs to return, newest first (default: 20)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_task_output',
+    'Get the terminal output and reported problems of the latest run of a VSCode task. Only output written while that run was active is returned.',
+    {
+      task_name: z.string().describe('Task name, e.g. "build". Use list_tasks to see available tasks.'),
+      lines: z.number().optional().default(100).describe('Number of lines to return from the end of the output (default: 100)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_terminal_errors',
+    'Extract structured errors from a VSCode terminal: compiler errors (tsc, Go, Rust, gcc), lint problems (eslint, biome), failing jest/vitest tests and Python or Node stack traces, each with file, line, column, message and the command that printed it.',
+    {
+      terminal_name: z.string().describe('Terminal name or ID. Use list_terminals to see available options.'),
+      command_id: z.number().optional().describe('Only parse the output of this command from list_commands (default: the 20 most recent commands)'),
+      lines: z.number().optional().describe('Only parse this many lines from the end of each command, or of the terminal when no commands are recorded (default: all, or 1000 without commands)'),
+      severity: z.enum(['error', 'warning']).optional().describe('Only return diagnostics of this severity (default: both)'),
+      limit: z.number().optional().default(50).describe('Maximum number of diagnostics to return, newest last (default: 50)'),
+    }
+  );
+
+  proxyTool(
+    server,
+    'get_debug_output',
+    'Get what a debug session printed to the VSCode Debug Console, including program stdout and stderr. Also lists the recent debug sessions.',
+    {
+      session_name: z.string().optional().describe('Debug session name or ID (default: the latest session)'),
+      lines: z.number().optional().default(100).describe('Number of lines to return from the end of the output (default: 100)'),
+      categories: z.array(z.string()).optional().describe('Only return these output categories, e.g. ["stderr"]. Common ones are console, stdout, stderr and important.'),
     }
   );
 
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  // Resources are served by the extension as-is, so proxy the raw requests
+  server.server.setRequestHandler(ListResourcesRequestSchema, () => listResources());
+
+  server.server.setRequestHandler(ListResourceTemplatesRequestSchema, () =>
+    connectionsFor(selectInstances())[0].request('resources/templates/list', {})
+  );
+
+  server.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const connection = await connectionForResource(request.params.uri);
+    return connection.request('resources/read', { uri: request.params.uri });
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const connection = await connectionForResource(request.params.uri);
+    await connection.request('resources/subscribe', { uri: request.params.uri });
+    connection.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const connection = await connectionForResource(request.params.uri);
+    connection.subscriptions.delete(request.params.uri);
+    await connection.request('resources/unsubscribe', { uri: request.params.uri });
+    return {};
+  });
+
+  notificationHandler = (message) => {
+    let forwarded;
+    if (message.method === 'notifications/resources/updated') {
+      forwarded = server.server.sendResourceUpdated(message.params);
+    } else if (message.method === 'notifications/resources/list_changed') {
+      forwarded = server.server.sendResourceListChanged();
+    }
+
+    forwarded?.catch((error) => {
+      console.error(`Failed to forward ${message.method}:`, error);
+    });
+  };
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Terminal Hook MCP server started');
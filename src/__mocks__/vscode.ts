@@ -20,6 +20,10 @@ export class EventEmitter<T> {
   fire(data: T): void {
     this.listeners.forEach(listener => listener(data));
   }
+
+  dispose(): void {
+    this.listeners = [];
+  }
 }
 
 export class Uri {
@@ -28,6 +32,14 @@ export class Uri {
   }
 
   constructor(public readonly path: string) {}
+
+  get fsPath(): string {
+    return this.path;
+  }
+
+  toString(): string {
+    return `file://${this.path}`;
+  }
 }
 
 export enum ExtensionMode {
@@ -43,6 +55,7 @@ export interface Terminal {
   exitStatus: TerminalExitStatus | undefined;
   state: TerminalState;
   shellIntegration: TerminalShellIntegration | undefined;
+  dimensions: TerminalDimensions | undefined;
   sendText(text: string, shouldExecute?: boolean): void;
   show(preserveFocus?: boolean): void;
   hide(): void;
@@ -51,12 +64,132 @@ export interface Terminal {
 
 export interface TerminalOptions {
   name?: string;
+  shellPath?: string;
+  shellArgs?: string[] | string;
+  env?: { [key: string]: string | null | undefined };
+  cwd?: string | Uri;
+  isTransient?: boolean;
+  hideFromUser?: boolean;
 }
 
 export interface ExtensionTerminalOptions {
   name: string;
 }
 
+export interface WorkspaceFolder {
+  uri: Uri;
+  name: string;
+  index: number;
+}
+
+export interface Task {
+  name: string;
+  source: string;
+  definition: { type: string };
+  problemMatchers: string[];
+}
+
+export interface TaskExecution {
+  task: Task;
+}
+
+export interface TaskStartEvent {
+  execution: TaskExecution;
+}
+
+export interface TaskEndEvent {
+  execution: TaskExecution;
+}
+
+export interface TaskProcessEndEvent {
+  execution: TaskExecution;
+  exitCode: number | undefined;
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export class Position {
+  constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+
+  constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    this.start = new Position(startLine, startCharacter);
+    this.end = new Position(endLine, endCharacter);
+  }
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number;
+
+  constructor(
+    public range: { start: { line: number; character: number } },
+    public message: string,
+    public severity: DiagnosticSeverity = DiagnosticSeverity.Error
+  ) {}
+}
+
+export class DiagnosticCollection {
+  private entries = new Map<string, { uri: Uri; diagnostics: Diagnostic[] }>();
+
+  constructor(public readonly name: string) {}
+
+  set(uri: Uri, diagnostics: Diagnostic[] | undefined): void {
+    if (diagnostics?.length) {
+      this.entries.set(uri.toString(), { uri, diagnostics });
+    } else {
+      this.entries.delete(uri.toString());
+    }
+  }
+
+  get(uri: Uri): Diagnostic[] | undefined {
+    return this.entries.get(uri.toString())?.diagnostics;
+  }
+
+  delete(uri: Uri): void {
+    this.entries.delete(uri.toString());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  forEach(callback: (uri: Uri, diagnostics: Diagnostic[]) => void): void {
+    this.entries.forEach(entry => callback(entry.uri, entry.diagnostics));
+  }
+
+  dispose(): void {
+    this.entries.clear();
+  }
+}
+
+export interface DiagnosticChangeEvent {
+  uris: readonly Uri[];
+}
+
+export interface DebugSession {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface DebugAdapterTracker {
+  onDidSendMessage?(message: any): void;
+}
+
+export interface DebugAdapterTrackerFactory {
+  createDebugAdapterTracker(session: DebugSession): DebugAdapterTracker | undefined;
+}
+
 export interface TerminalExitStatus {
   code: number | undefined;
   reason: number;
@@ -67,8 +200,24 @@ export interface TerminalState {
   shell: string | undefined;
 }
 
+export interface TerminalDimensions {
+  columns: number;
+  rows: number;
+}
+
 export interface TerminalShellIntegration {
   cwd: Uri | undefined;
+  executeCommand(commandLine: string): TerminalShellExecution;
+}
+
+export interface TerminalDimensionsChangeEvent {
+  terminal: Terminal;
+  dimensions: TerminalDimensions;
+}
+
+export interface TerminalShellIntegrationChangeEvent {
+  terminal: Terminal;
+  shellIntegration: TerminalShellIntegration;
 }
 
 export interface TerminalShellExecutionCommandLine {
@@ -153,17 +302,18 @@ export interface Extension<T> {
 // Mock implementations for tests
 
 export class MockTerminal implements Terminal {
-  public readonly name: string;
+  public name: string;
   public readonly processId: Thenable<number | undefined>;
   public readonly creationOptions: Readonly<TerminalOptions | ExtensionTerminalOptions>;
-  public readonly exitStatus: TerminalExitStatus | undefined;
+  public exitStatus: TerminalExitStatus | undefined;
   public state: TerminalState = { isInteractedWith: false, shell: undefined };
-  public readonly shellIntegration: TerminalShellIntegration | undefined = undefined;
+  public shellIntegration: TerminalShellIntegration | undefined = undefined;
+  public dimensions: TerminalDimensions | undefined = undefined;
 
-  constructor(name: string, processId?: number) {
+  constructor(name: string, processId?: number, options: TerminalOptions = {}) {
     this.name = name;
     this.processId = Promise.resolve(processId);
-    this.creationOptions = { name };
+    this.creationOptions = { name, ...options };
     this.exitStatus = undefined;
   }
 
@@ -238,23 +388,117 @@ export class MockExtensionContext {
   languageModelAccessInformation = {} as any;
 }
 
+export interface WorkspaceConfiguration {
+  get<T>(section: string): T | undefined;
+  get<T>(section: string, defaultValue: T): T;
+}
+
+const mockConfiguration: Record<string, unknown> = {};
+const mockWorkspaceFolders: WorkspaceFolder[] = [];
+
+export const workspace = {
+  getConfiguration(section?: string): WorkspaceConfiguration {
+    return {
+      get(key: string, defaultValue?: any): any {
+        const fullKey = section ? `${section}.${key}` : key;
+        return fullKey in mockConfiguration ? mockConfiguration[fullKey] : defaultValue;
+      },
+    };
+  },
+  get workspaceFolders(): WorkspaceFolder[] | undefined {
+    return mockWorkspaceFolders.length > 0 ? mockWorkspaceFolders : undefined;
+  },
+  getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+    return mockWorkspaceFolders.find(folder => uri.fsPath === folder.uri.fsPath || uri.fsPath.startsWith(`${folder.uri.fsPath}/`));
+  },
+  _mockConfiguration: mockConfiguration,
+  _mockWorkspaceFolders: mockWorkspaceFolders,
+};
+
+const onDidStartTaskEmitter = new EventEmitter<TaskStartEvent>();
+const onDidEndTaskEmitter = new EventEmitter<TaskEndEvent>();
+const onDidEndTaskProcessEmitter = new EventEmitter<TaskProcessEndEvent>();
+
+export const tasks = {
+  taskExecutions: [] as TaskExecution[],
+  onDidStartTask: onDidStartTaskEmitter.event,
+  onDidEndTask: onDidEndTaskEmitter.event,
+  onDidEndTaskProcess: onDidEndTaskProcessEmitter.event,
+  _mockOnDidStartTask: onDidStartTaskEmitter,
+  _mockOnDidEndTask: onDidEndTaskEmitter,
+  _mockOnDidEndTaskProcess: onDidEndTaskProcessEmitter,
+};
+
+const mockDiagnostics = new Map<string, Diagnostic[]>();
+const onDidChangeDiagnosticsEmitter = new EventEmitter<DiagnosticChangeEvent>();
+
+const diagnosticCollections: DiagnosticCollection[] = [];
+
+export const languages = {
+  getDiagnostics(uri: Uri): Diagnostic[] {
+    return mockDiagnostics.get(uri.toString()) ?? [];
+  },
+  createDiagnosticCollection(name: string): DiagnosticCollection {
+    const collection = new DiagnosticCollection(name);
+    diagnosticCollections.push(collection);
+    return collection;
+  },
+  onDidChangeDiagnostics: onDidChangeDiagnosticsEmitter.event,
+  _mockDiagnostics: mockDiagnostics,
+  _mockDiagnosticCollections: diagnosticCollections,
+  _mockOnDidChangeDiagnostics: onDidChangeDiagnosticsEmitter,
+};
+
+const debugAdapterTrackerFactories: DebugAdapterTrackerFactory[] = [];
+const onDidStartDebugSessionEmitter = new EventEmitter<DebugSession>();
+const onDidTerminateDebugSessionEmitter = new EventEmitter<DebugSession>();
+
+export const debug = {
+  registerDebugAdapterTrackerFactory(_debugType: string, factory: DebugAdapterTrackerFactory): Disposable {
+    debugAdapterTrackerFactories.push(factory);
+    return {
+      dispose: () => {
+        debugAdapterTrackerFactories.splice(debugAdapterTrackerFactories.indexOf(factory), 1);
+      },
+    };
+  },
+  onDidStartDebugSession: onDidStartDebugSessionEmitter.event,
+  onDidTerminateDebugSession: onDidTerminateDebugSessionEmitter.event,
+  _mockTrackerFactories: debugAdapterTrackerFactories,
+  _mockOnDidStartDebugSession: onDidStartDebugSessionEmitter,
+  _mockOnDidTerminateDebugSession: onDidTerminateDebugSessionEmitter,
+};
+
 const mockTerminals: Terminal[] = [];
 const onDidOpenTerminalEmitter = new EventEmitter<Terminal>();
 const onDidCloseTerminalEmitter = new EventEmitter<Terminal>();
 const onDidWriteTerminalDataEmitter = new EventEmitter<{ terminal: Terminal; data: string }>();
 const onDidStartTerminalShellExecutionEmitter = new EventEmitter<TerminalShellExecutionStartEvent>();
 const onDidEndTerminalShellExecutionEmitter = new EventEmitter<TerminalShellExecutionEndEvent>();
+const onDidChangeTerminalShellIntegrationEmitter = new EventEmitter<TerminalShellIntegrationChangeEvent>();
+const onDidChangeTerminalDimensionsEmitter = new EventEmitter<TerminalDimensionsChangeEvent>();
+const onDidChangeTerminalStateEmitter = new EventEmitter<Terminal>();
 
 export const window = {
   terminals: mockTerminals,
+  activeTerminal: undefined as Terminal | undefined,
   onDidOpenTerminal: onDidOpenTerminalEmitter.event,
   onDidCloseTerminal: onDidCloseTerminalEmitter.event,
   onDidWriteTerminalData: onDidWriteTerminalDataEmitter.event,
   onDidStartTerminalShellExecution: onDidStartTerminalShellExecutionEmitter.event,
   onDidEndTerminalShellExecution: onDidEndTerminalShellExecutionEmitter.event,
+  onDidChangeTerminalShellIntegration: onDidChangeTerminalShellIntegrationEmitter.event,
+  onDidChangeTerminalDimensions: onDidChangeTerminalDimensionsEmitter.event,
+  onDidChangeTerminalState: onDidChangeTerminalStateEmitter.event,
+  showWarningMessage: (..._args: unknown[]): Thenable<string | undefined> => Promise.resolve(undefined),
+  showInformationMessage: (..._args: unknown[]): Thenable<string | undefined> => Promise.resolve(undefined),
+  createTerminal: (options?: TerminalOptions): Terminal => new MockTerminal(options?.name ?? 'Terminal'),
   _mockOnDidOpenTerminal: onDidOpenTerminalEmitter,
   _mockOnDidCloseTerminal: onDidCloseTerminalEmitter,
   _mockOnDidWriteTerminalData: onDidWriteTerminalDataEmitter,
   _mockOnDidStartTerminalShellExecution: onDidStartTerminalShellExecutionEmitter,
   _mockOnDidEndTerminalShellExecution: onDidEndTerminalShellExecutionEmitter,
+  _mockOnDidChangeTerminalShellIntegration: onDidChangeTerminalShellIntegrationEmitter,
+  _mockOnDidChangeTerminalDimensions: onDidChangeTerminalDimensionsEmitter,
+  _mockOnDidChangeTerminalState: onDidChangeTerminalStateEmitter,
 };
@@ -0,0 +1,41 @@
+import { AUTH_TOKEN_SECRET, createAuthToken, loadAuthToken, verifyAuthToken } from './auth';
+import { MockExtensionContext } from './__mocks__/vscode';
+
+describe('auth tokens', () => {
+  it('should create unique 256-bit tokens', () => {
+    const token = createAuthToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(createAuthToken()).not.toBe(token);
+  });
+
+  it('should accept only the exact token', () => {
+    const token = createAuthToken();
+
+    expect(verifyAuthToken(token, token)).toBe(true);
+    expect(verifyAuthToken(token, token.slice(1))).toBe(false);
+    expect(verifyAuthToken(token, token.toUpperCase())).toBe(false);
+    expect(verifyAuthToken(token, '')).toBe(false);
+    expect(verifyAuthToken(token, undefined)).toBe(false);
+    expect(verifyAuthToken(token, 42)).toBe(false);
+  });
+
+  it('should keep the token in secret storage across activations', async () => {
+    const { secrets } = new MockExtensionContext();
+
+    const token = await loadAuthToken(secrets);
+
+    expect(await secrets.get(AUTH_TOKEN_SECRET)).toBe(token);
+    expect(await loadAuthToken(secrets)).toBe(token);
+  });
+
+  it('should fall back to a session token when secret storage fails', async () => {
+    const { secrets } = new MockExtensionContext();
+    jest.spyOn(secrets, 'get').mockRejectedValue(new Error('no keyring'));
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await loadAuthToken(secrets)).toMatch(/^[0-9a-f]{64}$/);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
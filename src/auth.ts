@@ -0,0 +1,56 @@
+import * as crypto from 'crypto';
+import type { SecretStorage } from 'vscode';
+
+/** First message a bridge must send on a new connection, with `params.token` */
+export const AUTH_METHOD = 'terminalHook/authenticate';
+
+/** JSON-RPC error code for connections that have not authenticated */
+export const UNAUTHORIZED_ERROR = -32001;
+
+/** Time a new connection has to authenticate before it is dropped */
+export const AUTH_TIMEOUT_MS = 5000;
+
+/** Longest line a connection may send before it has authenticated, far more than the handshake needs */
+export const MAX_UNAUTHENTICATED_LINE = 4096;
+
+/** SecretStorage key the token is kept under */
+export const AUTH_TOKEN_SECRET = 'terminalHook.authToken';
+
+const AUTH_TOKEN = /^[0-9a-f]{64}$/;
+
+export function createAuthToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Returns the token kept in SecretStorage, creating and storing one the first
+ * time. Reusing it keeps the registered MCP configs valid across reloads. When
+ * the secret store is unavailable, e.g. without a keyring on Linux, a token
+ * for this session only is returned.
+ */
+export async function loadAuthToken(secrets: SecretStorage): Promise<string> {
+  try {
+    const stored = await secrets.get(AUTH_TOKEN_SECRET);
+    if (stored && AUTH_TOKEN.test(stored)) {
+      return stored;
+    }
+
+    const token = createAuthToken();
+    await secrets.store(AUTH_TOKEN_SECRET, token);
+    return token;
+  } catch (error) {
+    console.error('Failed to load auth token from secret storage:', error);
+    return createAuthToken();
+  }
+}
+
+/** Compares in constant time so the token cannot be guessed a byte at a time */
+export function verifyAuthToken(expected: string, presented: unknown): boolean {
+  if (typeof presented !== 'string') {
+    return false;
+  }
+
+  const expectedBytes = Buffer.from(expected);
+  const presentedBytes = Buffer.from(presented);
+  return expectedBytes.length === presentedBytes.length && crypto.timingSafeEqual(expectedBytes, presentedBytes);
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { readConfig } from './config';
+import { DEFAULT_NOISE_FILTERS } from './services/TerminalBufferService';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockConfiguration = (vscode as any).workspace._mockConfiguration;
+
+describe('readConfig', () => {
+  afterEach(() => {
+    for (const key of Object.keys(mockConfiguration)) {
+      delete mockConfiguration[key];
+    }
+  });
+
+  it('should fall back to the defaults', () => {
+    const config = readConfig();
+
+    expect(config.transport).toBe('tcp');
+    expect(config.port).toBe(9876);
+    expect(config.host).toBe('127.0.0.1');
+    expect(config.requestTimeoutMs).toBe(5000);
+    expect(config.mcpConfigTargets).toEqual(['cursor']);
+    expect(config.capture).toMatchObject({
+      enabled: true,
+      maxBufferLines: 10000,
+      maxRawChars: 1048576,
+      maxMemoryBytes: 256 * 1024 * 1024,
+      archiveRetentionMs: 24 * 60 * 60 * 1000,
+      persistHistory: true,
+      maxHistoryBytes: 10 * 1024 * 1024,
+    });
+    expect(config.capture.noiseFilters.map(f => f.source)).toEqual(DEFAULT_NOISE_FILTERS);
+    expect(config.redaction).toEqual({ enabled: true, customPatterns: [] });
+    expect(config.access).toEqual({ allow: [], deny: [] });
+  });
+
+  it('should read configured values', () => {
+    mockConfiguration['terminalHook.server.transport'] = 'socket';
+    mockConfiguration['terminalHook.server.port'] = 9999;
+    mockConfiguration['terminalHook.capture.maxBufferLines'] = 500;
+    mockConfiguration['terminalHook.capture.maxMemoryMB'] = 0;
+    mockConfiguration['terminalHook.rawCapture.enabled'] = false;
+    mockConfiguration['terminalHook.mcpConfig.targets'] = ['cursor', 'windsurf'];
+
+    const config = readConfig();
+
+    expect(config.transport).toBe('socket');
+    expect(config.port).toBe(9999);
+    expect(config.capture.maxBufferLines).toBe(500);
+    expect(config.capture.maxMemoryBytes).toBe(0);
+    expect(config.capture.maxRawChars).toBe(0);
+    expect(config.mcpConfigTargets).toEqual(['cursor', 'windsurf']);
+  });
+
+  it('should skip invalid noise filters', () => {
+    mockConfiguration['terminalHook.capture.noiseFilters'] = ['^ok$', '(unclosed'];
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const config = readConfig();
+
+    expect(config.capture.noiseFilters.map(f => f.source)).toEqual(['^ok$']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should compile access rules', () => {
+    mockConfiguration['terminalHook.access.deny'] = [{ name: '^ssh', isTransient: false }, { cwd: '(' }];
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const config = readConfig();
+
+    expect(config.access.deny).toHaveLength(1);
+    expect(config.access.deny[0].name?.source).toBe('^ssh');
+    expect(config.access.deny[0].isTransient).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should compile run_in_terminal command patterns', () => {
+    mockConfiguration['terminalHook.runInTerminal.enabled'] = true;
+    mockConfiguration['terminalHook.runInTerminal.allowedCommands'] = ['^npm test$', '(npm'];
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const config = readConfig();
+
+    expect(config.runInTerminal.enabled).toBe(true);
+    expect(config.runInTerminal.allowedCommands.map(p => p.source)).toEqual(['^npm test$']);
+    expect(config.runInTerminal.deniedCommands).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should compile custom redaction patterns', () => {
+    mockConfiguration['terminalHook.redaction.customPatterns'] = ['acme-[0-9]{6}', '[bad'];
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const config = readConfig();
+
+    expect(config.redaction.customPatterns.map(p => p.source)).toEqual(['acme-[0-9]{6}']);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { CaptureSettings, DEFAULT_NOISE_FILTERS } from './services/TerminalBufferService';
+import { AccessRule, AccessSettings } from './services/AccessPolicy';
+import { RedactionSettings } from './services/Redactor';
+import { ProblemsSettings } from './services/ProblemsPublisher';
+import { RunInTerminalSettings } from './services/CommandRunner';
+import { Transport } from './transport';
+
+export const CONFIG_SECTION = 'terminalHook';
+
+export type McpConfigTarget = 'cursor' | 'claudeDesktop' | 'windsurf';
+
+/** An access rule as written in settings, with patterns as strings */
+interface AccessRuleSetting {
+  name?: string;
+  shellPath?: string;
+  cwd?: string;
+  isTransient?: boolean;
+  hideFromUser?: boolean;
+}
+
+export interface ExtensionConfig {
+  /** `socket` listens on a user-only Unix socket or named pipe instead of a TCP port */
+  transport: Transport;
+  port: number;
+  host: string;
+  /** How long the stdio bridge waits for the extension to answer a request */
+  requestTimeoutMs: number;
+  capture: CaptureSettings;
+  redaction: RedactionSettings;
+  /** Which terminals MCP clients may see */
+  access: AccessSettings;
+  /** Whether errors found in terminal output are shown in the Problems panel */
+  problems: ProblemsSettings;
+  /** Whether and which commands MCP clients may run */
+  runInTerminal: RunInTerminalSettings;
+  /** MCP client config files the bridge is registered in on activation */
+  mcpConfigTargets: McpConfigTarget[];
+}
+
+export function readConfig(): ExtensionConfig {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const rawCaptureEnabled = config.get<boolean>('rawCapture.enabled', true);
+
+  return {
+    transport: config.get<Transport>('server.transport', 'tcp'),
+    port: config.get<number>('server.port', 9876),
+    host: config.get<string>('server.host', '127.0.0.1'),
+    requestTimeoutMs: config.get<number>('server.requestTimeoutMs', 5000),
+    capture: {
+      enabled: config.get<boolean>('capture.enabled', true),
+      maxBufferLines: config.get<number>('capture.maxBufferLines', 10000),
+      maxRawChars: rawCaptureEnabled ? config.get<number>('rawCapture.maxChars', 1048576) : 0,
+      maxMemoryBytes: config.get<number>('capture.maxMemoryMB', 256) * 1024 * 1024,
+      noiseFilters: compilePatterns(config.get<string[]>('capture.noiseFilters', DEFAULT_NOISE_FILTERS), 'noise filter'),
+      archiveRetentionMs: config.get<number>('history.retentionHours', 24) * 60 * 60 * 1000,
+      persistHistory: config.get<boolean>('history.persist', true),
+      maxHistoryBytes: config.get<number>('history.maxStorageMB', 10) * 1024 * 1024,
+    },
+    redaction: {
+      enabled: config.get<boolean>('redaction.enabled', true),
+      customPatterns: compilePatterns(config.get<string[]>('redaction.customPatterns', []), 'redaction pattern'),
+    },
+    access: {
+      allow: compileRules(config.get<AccessRuleSetting[]>('access.allow', []), 'allow'),
+      deny: compileRules(config.get<AccessRuleSetting[]>('access.deny', []), 'deny'),
+    },
+    problems: {
+      enabled: config.get<boolean>('problems.enabled', true),
+    },
+    runInTerminal: {
+      enabled: config.get<boolean>('runInTerminal.enabled', false),
+      allowedCommands: compilePatterns(config.get<string[]>('runInTerminal.allowedCommands', []), 'command pattern'),
+      deniedCommands: compilePatterns(config.get<string[]>('runInTerminal.deniedCommands', []), 'command pattern'),
+    },
+    mcpConfigTargets: config.get<McpConfigTarget[]>('mcpConfig.targets', ['cursor']),
+  };
+}
+
+function compilePatterns(patterns: string[], label: string): RegExp[] {
+  const compiled: RegExp[] = [];
+
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern));
+    } catch {
+      console.warn(`[config] Ignoring invalid ${label}: ${pattern}`);
+    }
+  }
+
+  return compiled;
+}
+
+function compileRules(rules: AccessRuleSetting[], label: string): AccessRule[] {
+  const compiled: AccessRule[] = [];
+
+  for (const rule of rules) {
+    try {
+      compiled.push({
+        name: rule.name !== undefined ? new RegExp(rule.name) : undefined,
+        shellPath: rule.shellPath !== undefined ? new RegExp(rule.shellPath) : undefined,
+        cwd: rule.cwd !== undefined ? new RegExp(rule.cwd) : undefined,
+        isTransient: rule.isTransient,
+        hideFromUser: rule.hideFromUser,
+      });
+    } catch {
+      console.warn(`[config] Ignoring invalid ${label} rule: ${JSON.stringify(rule)}`);
+    }
+  }
+
+  return compiled;
+}
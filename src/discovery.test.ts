@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiscoveryRecord, removeDiscoveryRecord, writeDiscoveryRecord } from './discovery';
+
+describe('discovery records', () => {
+  let dir: string;
+
+  const record: DiscoveryRecord = {
+    pid: 4242,
+    port: 9877,
+    host: '127.0.0.1',
+    workspaceFolders: ['/work/app'],
+    token: 'secret',
+    appName: 'Visual Studio Code',
+    startedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write one record per process', () => {
+    const recordPath = writeDiscoveryRecord(record, path.join(dir, 'instances'));
+
+    expect(recordPath).toBe(path.join(dir, 'instances', '4242.json'));
+    expect(JSON.parse(fs.readFileSync(recordPath, 'utf-8'))).toEqual(record);
+    expect(fs.readdirSync(path.join(dir, 'instances'))).toEqual(['4242.json']);
+  });
+
+  it('should only be readable by the user', () => {
+    if (process.platform === 'win32') {
+      return;
+    }
+
+    const recordPath = writeDiscoveryRecord(record, dir);
+    expect(fs.statSync(recordPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should replace an earlier record', () => {
+    writeDiscoveryRecord(record, dir);
+    const recordPath = writeDiscoveryRecord({ ...record, workspaceFolders: ['/work/app', '/work/lib'] }, dir);
+
+    expect(JSON.parse(fs.readFileSync(recordPath, 'utf-8')).workspaceFolders).toEqual(['/work/app', '/work/lib']);
+  });
+
+  it('should remove the record and ignore missing ones', () => {
+    writeDiscoveryRecord(record, dir);
+
+    removeDiscoveryRecord(4242, dir);
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    expect(() => removeDiscoveryRecord(4242, dir)).not.toThrow();
+  });
+});
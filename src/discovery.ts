@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Written by every editor window running the extension so the MCP bridge can
+ * find the port it ended up on and pick a window by workspace.
+ */
+export interface DiscoveryRecord {
+  pid: number;
+  /** Set for the TCP transport */
+  port?: number;
+  host?: string;
+  /** Set for the socket transport, see transport.ts */
+  socketPath?: string;
+  workspaceFolders: string[];
+  /** Secret the bridge presents when connecting */
+  token: string;
+  appName: string;
+  startedAt: string;
+}
+
+export function getDiscoveryDir(): string {
+  return path.join(os.homedir(), '.terminal-hook', 'instances');
+}
+
+function getRecordPath(pid: number, dir: string): string {
+  return path.join(dir, `${pid}.json`);
+}
+
+/** Writes the record for `record.pid`, replacing an earlier one atomically */
+export function writeDiscoveryRecord(record: DiscoveryRecord, dir: string = getDiscoveryDir()): string {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const recordPath = getRecordPath(record.pid, dir);
+  const tempPath = `${recordPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(record, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, recordPath);
+
+  return recordPath;
+}
+
+export function removeDiscoveryRecord(pid: number = process.pid, dir: string = getDiscoveryDir()): void {
+  try {
+    fs.unlinkSync(getRecordPath(pid, dir));
+  } catch (error) {
+    if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+      console.warn('[discovery] Failed to remove discovery record:', error);
+    }
+  }
+}
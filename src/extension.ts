@@ -4,20 +4,110 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { TerminalBufferService } from './services/TerminalBufferService';
-import { MCPServer } from './services/MCPServer';
+import { CommandRunner } from './services/CommandRunner';
+import { MCPClient, MCPServer } from './services/MCPServer';
+import { Redactor } from './services/Redactor';
+import { AccessPolicy } from './services/AccessPolicy';
+import { DebugOutputService } from './services/DebugOutputService';
+import { ProblemsPublisher } from './services/ProblemsPublisher';
+import { buildTimeline, formatTimeline, timelineLabels } from './services/Timeline';
+import { parseTimeRange } from './services/TimeRange';
+import { CONFIG_SECTION, ExtensionConfig, McpConfigTarget, readConfig } from './config';
+import { DiscoveryRecord, removeDiscoveryRecord, writeDiscoveryRecord } from './discovery';
+import { AUTH_METHOD, AUTH_TIMEOUT_MS, MAX_UNAUTHENTICATED_LINE, UNAUTHORIZED_ERROR, loadAuthToken, verifyAuthToken } from './auth';
+import { getSocketPath, prepareSocketPath } from './transport';
 
 let terminalService: TerminalBufferService;
 let mcpServer: MCPServer;
+let redactor: Redactor;
+let accessPolicy: AccessPolicy;
+let debugOutput: DebugOutputService;
+let problemsPublisher: ProblemsPublisher;
+let commandRunner: CommandRunner;
+let exposureStatus: vscode.StatusBarItem;
 let server: net.Server | undefined;
+let config: ExtensionConfig;
+let listening: Pick<DiscoveryRecord, 'port' | 'host' | 'socketPath'> | undefined;
+let authToken: string;
+let startedAt: string;
+const sockets = new Set<net.Socket>();
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
   console.log('Terminal Hook extension is now active');
 
-  terminalService = new TerminalBufferService(10000);
+  config = readConfig();
+  authToken = await loadAuthToken(context.secrets);
+  startedAt = new Date().toISOString();
+  terminalService = new TerminalBufferService(config.capture.maxBufferLines, config.capture.maxRawChars);
+  terminalService.updateSettings(config.capture);
   terminalService.initialize(context);
-  mcpServer = new MCPServer(terminalService);
-  startMCPServer(context);
+  redactor = new Redactor(config.redaction);
+  accessPolicy = new AccessPolicy(config.access);
+  debugOutput = new DebugOutputService(config.capture);
+  debugOutput.initialize();
+  problemsPublisher = new ProblemsPublisher(terminalService, config.problems);
+  problemsPublisher.initialize();
+  commandRunner = new CommandRunner(terminalService, config.runInTerminal);
+  mcpServer = new MCPServer(terminalService, commandRunner, redactor, accessPolicy, debugOutput);
+  context.subscriptions.push(
+    terminalService.onDidCaptureOutput(event => {
+      mcpServer.notifyTerminalOutput(event.terminalId);
+    }),
+    terminalService.onDidChangeTerminals(() => {
+      mcpServer.notifyResourceListChanged();
+    }),
+    accessPolicy.onDidChange(() => {
+      mcpServer.notifyResourceListChanged();
+      updateExposureStatus();
+    })
+  );
+
+  exposureStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  exposureStatus.command = 'terminal-hook.toggleExposure';
+  context.subscriptions.push(
+    exposureStatus,
+    vscode.window.onDidChangeActiveTerminal(() => updateExposureStatus()),
+    vscode.commands.registerCommand('terminal-hook.toggleExposure', () => {
+      const terminal = vscode.window.activeTerminal;
+      if (!terminal) {
+        vscode.window.showInformationMessage('No active terminal');
+        return;
+      }
+
+      const exposed = !isExposed(terminal);
+      accessPolicy.setExposed(terminalService.trackTerminal(terminal).id, exposed);
+      vscode.window.showInformationMessage(
+        `Terminal "${terminal.name}" is now ${exposed ? 'visible' : 'hidden'} to MCP clients`
+      );
+    }),
+    vscode.commands.registerCommand('terminal-hook.toggleProblems', () => {
+      const terminal = vscode.window.activeTerminal;
+      if (!terminal) {
+        vscode.window.showInformationMessage('No active terminal');
+        return;
+      }
+
+      const id = terminalService.trackTerminal(terminal).id;
+      const enabled = !problemsPublisher.isEnabled(id);
+      problemsPublisher.setEnabled(id, enabled);
+      vscode.window.showInformationMessage(
+        `Errors from terminal "${terminal.name}" are now ${enabled ? 'shown' : 'hidden'} in the Problems panel`
+      );
+    })
+  );
+  updateExposureStatus();
+  startMCPServer();
   registerMCPConfig(context);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(CONFIG_SECTION)) {
+        applyConfigChange(context);
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      publishDiscoveryRecord();
+    })
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand('terminal-hook.getTerminalOutput', async () => {
       const terminals = terminalService.getAllTerminals();
@@ -50,6 +140,10 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('terminal-hook.showTimeline', () => showTimeline())
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('terminal-hook.listTerminals', () => {
       const terminals = terminalService.getAllTerminals();
@@ -69,31 +163,216 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push({
     dispose: () => {
+      accessPolicy.dispose();
+      debugOutput.dispose();
+      problemsPublisher.dispose();
+      mcpServer.dispose();
       terminalService.dispose();
-      if (server) {
-        server.close();
-      }
+      stopMCPServer();
     },
   });
 }
 
-function startMCPServer(context: vscode.ExtensionContext) {
-  const port = 9876;
+function applyConfigChange(context: vscode.ExtensionContext) {
+  const previous = config;
+  config = readConfig();
+
+  terminalService.updateSettings(config.capture);
+  debugOutput.updateSettings(config.capture);
+  problemsPublisher.updateSettings(config.problems);
+  commandRunner.updateSettings(config.runInTerminal);
+  redactor.updateSettings(config.redaction);
+  accessPolicy.updateSettings(config.access);
+
+  if (config.transport !== previous.transport || config.port !== previous.port || config.host !== previous.host) {
+    stopMCPServer();
+    startMCPServer();
+  }
+
+  if (
+    config.transport !== previous.transport ||
+    config.port !== previous.port ||
+    config.host !== previous.host ||
+    config.requestTimeoutMs !== previous.requestTimeoutMs ||
+    config.mcpConfigTargets.join() !== previous.mcpConfigTargets.join()
+  ) {
+    registerMCPConfig(context);
+  }
+}
+
+/** Asks for the terminals, time window and pattern, then opens their merged output */
+async function showTimeline() {
+  const terminals = terminalService.getAllTerminals(true);
+
+  if (terminals.length === 0) {
+    vscode.window.showInformationMessage('No terminals found');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    terminals.map(t => ({
+      label: t.name || '(unnamed)',
+      description: `${t.buffer.length} lines${t.closedAt ? ', closed' : ''}`,
+      picked: !t.closedAt,
+      terminal: t,
+    })),
+    { placeHolder: 'Select the terminals to merge', canPickMany: true }
+  );
+  if (!selected?.length) {
+    return;
+  }
+
+  const since = await vscode.window.showInputBox({
+    prompt: 'Start of the time window, e.g. 5m, 14:32 or an ISO timestamp. Leave empty for all output.',
+    validateInput: value => validateTime(value),
+  });
+  if (since === undefined) {
+    return;
+  }
+
+  const pattern = await vscode.window.showInputBox({
+    prompt: 'Only lines matching this regular expression. Leave empty for every line.',
+    validateInput: value => validatePattern(value),
+  });
+  if (pattern === undefined) {
+    return;
+  }
+
+  const chosen = selected.map(item => item.terminal);
+  const timeline = buildTimeline(chosen, {
+    range: since ? parseTimeRange(since, undefined) : undefined,
+    pattern: pattern ? new RegExp(pattern, 'i') : undefined,
+  });
+  if (timeline.entries.length === 0) {
+    vscode.window.showInformationMessage('No output matches');
+    return;
+  }
+
+  const content = formatTimeline(timeline, timelineLabels(chosen), formatLocalTime).join('\n');
+  const doc = await vscode.workspace.openTextDocument({ content, language: 'log' });
+  await vscode.window.showTextDocument(doc);
+}
+
+function validateTime(value: string): string | undefined {
+  try {
+    if (value.trim()) {
+      parseTimeRange(value, undefined);
+    }
+    return undefined;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+function validatePattern(value: string): string | undefined {
+  try {
+    new RegExp(value);
+    return undefined;
+  } catch (error: any) {
+    return `Invalid pattern: ${error.message}`;
+  }
+}
+
+/** HH:MM:SS.mmm in local time, which is what the user compares against */
+function formatLocalTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function isExposed(terminal: vscode.Terminal): boolean {
+  return accessPolicy.isExposed(AccessPolicy.factsOf(terminalService.trackTerminal(terminal)));
+}
+
+/** Shows whether MCP clients can see the active terminal */
+function updateExposureStatus() {
+  const terminal = vscode.window.activeTerminal;
+  if (!terminal) {
+    exposureStatus.hide();
+    return;
+  }
+
+  if (isExposed(terminal)) {
+    exposureStatus.text = '$(eye) MCP';
+    exposureStatus.tooltip = `"${terminal.name}" is visible to MCP clients. Click to hide it.`;
+  } else {
+    exposureStatus.text = '$(eye-closed) MCP';
+    exposureStatus.tooltip = `"${terminal.name}" is hidden from MCP clients. Click to show it.`;
+  }
+  exposureStatus.show();
+}
+
+/**
+ * Listens on this window's socket, or on the configured port, falling back to
+ * a free one if another window already has it
+ */
+function startMCPServer(port: number = config.port) {
+  const { host } = config;
   
-  server = net.createServer((socket) => {
+  const current = net.createServer((socket) => {
     console.log('MCP client connected');
+    sockets.add(socket);
+
+    const client: MCPClient = {
+      send: (notification) => {
+        if (!socket.destroyed) {
+          socket.write(JSON.stringify(notification) + '\n');
+        }
+      },
+    };
+    let pending = '';
+    let authenticated = false;
+
+    // Until it authenticates, a client must not be able to hold the connection or fill memory
+    const authTimer = setTimeout(() => {
+      console.warn('Dropped MCP client that did not authenticate in time');
+      socket.destroy();
+    }, AUTH_TIMEOUT_MS);
 
     socket.on('data', (data) => {
-      const lines = data.toString().split('\n').filter(line => line.trim());
-      
-      for (const line of lines) {
+      pending += data.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+
+      if (!authenticated && [pending, ...lines].some(line => line.length > MAX_UNAUTHENTICATED_LINE)) {
+        console.warn('Dropped unauthenticated MCP client that sent too much');
+        socket.destroy();
+        return;
+      }
+
+      for (const line of lines.filter(l => l.trim())) {
         try {
           const request = JSON.parse(line);
-          const response = mcpServer.handleRequest(request);
-          
-          if (response) {
-            socket.write(JSON.stringify(response) + '\n');
+
+          // Terminals can contain echoed secrets, so nothing is answered until
+          // the bridge presents the token from its MCP config or discovery record
+          if (!authenticated) {
+            if (request.method === AUTH_METHOD && verifyAuthToken(authToken, request.params?.token)) {
+              authenticated = true;
+              clearTimeout(authTimer);
+              socket.write(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { authenticated: true } }) + '\n');
+              continue;
+            }
+
+            console.warn('Rejected unauthenticated MCP client');
+            socket.end(JSON.stringify({
+              jsonrpc: '2.0',
+              id: request.id ?? null,
+              error: {
+                code: UNAUTHORIZED_ERROR,
+                message: `Unauthorized: send ${AUTH_METHOD} with a valid token first`,
+              },
+            }) + '\n');
+            return;
           }
+
+          mcpServer.handleRequest(request, client).then(response => {
+            if (response && !socket.destroyed) {
+              socket.write(JSON.stringify(response) + '\n');
+            }
+          }).catch(error => {
+            console.error('Error handling MCP request:', error);
+          });
         } catch (error: any) {
           console.error('Error handling MCP request:', error);
           socket.write(JSON.stringify({
@@ -113,30 +392,142 @@ function startMCPServer(context: vscode.ExtensionContext) {
     });
 
     socket.on('close', () => {
+      clearTimeout(authTimer);
+      sockets.delete(socket);
+      mcpServer.removeClient(client);
       console.log('MCP client disconnected');
     });
   });
 
-  server.listen(port, '127.0.0.1', () => {
-    console.log(`Terminal Hook MCP server listening on port ${port}`);
-    vscode.window.showInformationMessage(`Terminal Hook running on port ${port}`);
-  });
+  if (config.transport === 'socket') {
+    const socketPath = getSocketPath();
+
+    try {
+      prepareSocketPath(socketPath);
+    } catch (error: any) {
+      console.error('Failed to prepare socket path:', error);
+      vscode.window.showErrorMessage(`Failed to start MCP server: ${error.message}`);
+      return;
+    }
+
+    current.listen(socketPath, () => {
+      // prepareSocketPath made sure nobody else can enter the directory in the meantime
+      if (process.platform !== 'win32') {
+        fs.chmodSync(socketPath, 0o600);
+      }
+      listening = { socketPath };
+      publishDiscoveryRecord();
+
+      console.log(`Terminal Hook MCP server listening on ${socketPath}`);
+      vscode.window.showInformationMessage(`Terminal Hook listening on ${socketPath}`);
+    });
+  } else {
+    current.listen(port, host, () => {
+      const actualPort = (current.address() as net.AddressInfo).port;
+      listening = { port: actualPort, host };
+      publishDiscoveryRecord();
+
+      const fallback = actualPort !== config.port ? ` (${config.port} is in use)` : '';
+      console.log(`Terminal Hook MCP server listening on ${host}:${actualPort}`);
+      vscode.window.showInformationMessage(`Terminal Hook running on port ${actualPort}${fallback}`);
+    });
+  }
+
+  current.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EADDRINUSE' && config.transport === 'tcp' && port !== 0 && server === current) {
+      console.warn(`Port ${port} is in use, falling back to a free port`);
+      startMCPServer(0);
+      return;
+    }
 
-  server.on('error', (error) => {
     console.error('Server error:', error);
     vscode.window.showErrorMessage(`Failed to start MCP server: ${error.message}`);
   });
+
+  server = current;
 }
 
-export function deactivate() {
+/** Closes the listener and drops connected bridges so they reconnect to the new address */
+function stopMCPServer() {
   if (server) {
     server.close();
+    server = undefined;
+  }
+
+  if (listening) {
+    removeDiscoveryRecord();
+    listening = undefined;
   }
+
+  for (const socket of sockets) {
+    socket.destroy();
+  }
+  sockets.clear();
+}
+
+/** Lets the MCP bridge find this window's port or socket, see discovery.ts */
+function publishDiscoveryRecord() {
+  if (!listening) {
+    return;
+  }
+
+  try {
+    writeDiscoveryRecord({
+      pid: process.pid,
+      ...listening,
+      workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath),
+      token: authToken,
+      appName: vscode.env.appName,
+      startedAt,
+    });
+  } catch (error: any) {
+    console.error('Failed to write discovery record:', error);
+  }
+}
+
+export function deactivate() {
+  stopMCPServer();
 }
 
-async function registerMCPConfig(context: vscode.ExtensionContext) {
-  const mcpConfigPath = path.join(os.homedir(), '.cursor', 'mcp.json');
+function getMCPConfigPath(target: McpConfigTarget): string {
+  const home = os.homedir();
+
+  switch (target) {
+    case 'cursor':
+      return path.join(home, '.cursor', 'mcp.json');
+    case 'windsurf':
+      return path.join(home, '.codeium', 'windsurf', 'mcp_config.json');
+    case 'claudeDesktop':
+      if (process.platform === 'darwin') {
+        return path.join(home, 'Library', 'Application Support', 'Claude', 'claude_desktop_config.json');
+      }
+      if (process.platform === 'win32') {
+        return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'Claude', 'claude_desktop_config.json');
+      }
+      return path.join(home, '.config', 'Claude', 'claude_desktop_config.json');
+  }
+}
+
+const SESSION_ENV = ['VSCODE_TERMINAL_MCP_TOKEN', 'VSCODE_TERMINAL_MCP_SOCKET'];
+
+function registerMCPConfig(context: vscode.ExtensionContext) {
   const mcpServerPath = path.join(context.extensionPath, 'out', 'mcp-server.cjs');
+  // Undefined values remove a variable left over from an earlier setting
+  const env = {
+    VSCODE_TERMINAL_MCP_PORT: String(config.port),
+    VSCODE_TERMINAL_MCP_HOST: config.host,
+    VSCODE_TERMINAL_MCP_SOCKET: config.transport === 'socket' ? getSocketPath() : undefined,
+    VSCODE_TERMINAL_MCP_TIMEOUT_MS: String(config.requestTimeoutMs),
+    VSCODE_TERMINAL_MCP_TOKEN: authToken,
+  };
+
+  for (const target of config.mcpConfigTargets) {
+    writeMCPConfig(getMCPConfigPath(target), mcpServerPath, env);
+  }
+}
+
+function writeMCPConfig(mcpConfigPath: string, mcpServerPath: string, env: Record<string, string | undefined>) {
+  const displayPath = mcpConfigPath.replace(os.homedir(), '~');
   
   try {
     let config: Record<string, any> = {};
@@ -148,32 +539,48 @@ async function registerMCPConfig(context: vscode.ExtensionContext) {
     
     const mcpServers: Record<string, any> = config.mcpServers || {};
     const existing = mcpServers['terminal-hook'];
+    const entry = {
+      ...existing,
+      command: 'node',
+      args: [mcpServerPath],
+      env: { ...existing?.env, ...env },
+    };
     
-    if (existing?.args?.[0] === mcpServerPath) {
-      console.log('MCP config already up to date');
+    if (JSON.stringify(existing) === JSON.stringify(entry)) {
+      console.log(`MCP config already up to date: ${displayPath}`);
       return;
     }
+
+    // The socket path changes every session, and the token when secret storage is unavailable, which is not worth a notification
+    const sessionEnv: Record<string, string> = {};
+    for (const key of SESSION_ENV) {
+      if (existing?.env?.[key] !== undefined && entry.env[key] !== undefined) {
+        sessionEnv[key] = existing.env[key];
+      }
+    }
+    const sessionOnly = JSON.stringify(existing) === JSON.stringify({ ...entry, env: { ...entry.env, ...sessionEnv } });
     
-    mcpServers['terminal-hook'] = {
-      command: 'node',
-      args: [mcpServerPath]
-    };
+    mcpServers['terminal-hook'] = entry;
     config.mcpServers = mcpServers;
     
-    const cursorDir = path.dirname(mcpConfigPath);
-    if (!fs.existsSync(cursorDir)) {
-      fs.mkdirSync(cursorDir, { recursive: true });
+    const configDir = path.dirname(mcpConfigPath);
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
     }
     
-    fs.writeFileSync(mcpConfigPath, JSON.stringify(config, null, 2));
+    // The entry carries the auth token, so keep the file private to the user
+    fs.writeFileSync(mcpConfigPath, JSON.stringify(config, null, 2), { mode: 0o600 });
+    fs.chmodSync(mcpConfigPath, 0o600);
     
-    if (existing) {
-      vscode.window.showInformationMessage('Terminal Hook: MCP config updated (path changed)');
+    if (sessionOnly) {
+      console.log(`MCP config session refreshed: ${displayPath}`);
+    } else if (existing) {
+      vscode.window.showInformationMessage(`Terminal Hook: MCP config updated in ${displayPath}`);
     } else {
-      vscode.window.showInformationMessage('Terminal Hook: MCP server registered in ~/.cursor/mcp.json');
+      vscode.window.showInformationMessage(`Terminal Hook: MCP server registered in ${displayPath}`);
     }
   } catch (error: any) {
     console.error('Failed to register MCP config:', error);
-    vscode.window.showWarningMessage(`Terminal Hook: Could not auto-register MCP config: ${error.message}`);
+    vscode.window.showWarningMessage(`Terminal Hook: Could not auto-register MCP config in ${displayPath}: ${error.message}`);
   }
 }
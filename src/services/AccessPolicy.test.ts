@@ -0,0 +1,69 @@
+import { AccessPolicy } from './AccessPolicy';
+import { TerminalData } from './TerminalBufferService';
+
+describe('AccessPolicy', () => {
+  const facts = (name: string, extra = {}) => ({ id: `terminal-0-${name}`, name, ...extra });
+
+  it('should expose every terminal without rules', () => {
+    expect(new AccessPolicy().isExposed(facts('bash'))).toBe(true);
+  });
+
+  it('should hide terminals matching a deny rule', () => {
+    const policy = new AccessPolicy({ allow: [], deny: [{ name: /^ssh/ }, { shellPath: /op$/ }] });
+
+    expect(policy.isExposed(facts('ssh prod'))).toBe(false);
+    expect(policy.isExposed(facts('vault', { shellPath: '/usr/local/bin/op' }))).toBe(false);
+    expect(policy.isExposed(facts('bash', { shellPath: '/bin/bash' }))).toBe(true);
+  });
+
+  it('should only expose allowed terminals when there are allow rules', () => {
+    const policy = new AccessPolicy({
+      allow: [{ cwd: /^\/work\// }],
+      deny: [{ cwd: /secrets/ }],
+    });
+
+    expect(policy.isExposed(facts('bash', { cwd: '/work/app' }))).toBe(true);
+    expect(policy.isExposed(facts('bash', { cwd: '/work/secrets' }))).toBe(false);
+    expect(policy.isExposed(facts('bash', { cwd: '/tmp' }))).toBe(false);
+    expect(policy.isExposed(facts('bash'))).toBe(false);
+  });
+
+  it('should require every field of a rule to match', () => {
+    const policy = new AccessPolicy({ allow: [], deny: [{ name: /task/, isTransient: true }] });
+
+    expect(policy.isExposed(facts('task', { isTransient: true }))).toBe(false);
+    expect(policy.isExposed(facts('task'))).toBe(true);
+    expect(policy.isExposed(facts('bash', { isTransient: true }))).toBe(true);
+  });
+
+  it('should let a manual toggle override the rules', () => {
+    const policy = new AccessPolicy({ allow: [], deny: [{}] });
+    const onDidChange = jest.fn();
+    policy.onDidChange(onDidChange);
+
+    policy.setExposed('terminal-0-bash', true);
+
+    expect(policy.isExposed(facts('bash'))).toBe(true);
+    expect(policy.isExposed(facts('zsh'))).toBe(false);
+    expect(onDidChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read facts from the terminal', () => {
+    const terminal = {
+      id: 'terminal-0-ssh',
+      name: 'ssh',
+      shellPath: '/usr/bin/ssh',
+      cwd: '/home/me',
+      creationOptions: {},
+    } as TerminalData;
+
+    expect(AccessPolicy.factsOf(terminal)).toEqual({
+      id: 'terminal-0-ssh',
+      name: 'ssh',
+      shellPath: '/usr/bin/ssh',
+      cwd: '/home/me',
+      isTransient: undefined,
+      hideFromUser: undefined,
+    });
+  });
+});
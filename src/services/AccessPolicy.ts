@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import type { TerminalData } from './TerminalBufferService';
+
+/** Matches a terminal when every field that is set matches. An empty rule matches every terminal. */
+export interface AccessRule {
+  name?: RegExp;
+  shellPath?: RegExp;
+  cwd?: RegExp;
+  isTransient?: boolean;
+  hideFromUser?: boolean;
+}
+
+export interface AccessSettings {
+  /** When not empty, only terminals matching one of these are exposed */
+  allow: AccessRule[];
+  /** Terminals matching one of these are never exposed, even if allowed */
+  deny: AccessRule[];
+}
+
+/** What rules are matched against. Failures record these when they happen, as they outlive their terminal. */
+export interface TerminalFacts {
+  id: string;
+  name: string;
+  shellPath?: string;
+  cwd?: string;
+  isTransient?: boolean;
+  hideFromUser?: boolean;
+}
+
+/**
+ * Decides which terminals MCP clients may see. Deny rules win over allow
+ * rules, and a terminal toggled by hand keeps that choice for the session.
+ */
+export class AccessPolicy {
+  private settings: AccessSettings;
+  private overrides: Map<string, boolean> = new Map();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(settings: AccessSettings = { allow: [], deny: [] }) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: AccessSettings): void {
+    this.settings = settings;
+    this.changeEmitter.fire();
+  }
+
+  public isExposed(facts: TerminalFacts): boolean {
+    const override = this.overrides.get(facts.id);
+    if (override !== undefined) {
+      return override;
+    }
+
+    const { allow, deny } = this.settings;
+    if (deny.some(rule => AccessPolicy.matches(rule, facts))) {
+      return false;
+    }
+    return allow.length === 0 || allow.some(rule => AccessPolicy.matches(rule, facts));
+  }
+
+  /** Overrides the rules for one terminal until the window is reloaded */
+  public setExposed(terminalId: string, exposed: boolean): void {
+    this.overrides.set(terminalId, exposed);
+    this.changeEmitter.fire();
+  }
+
+  public dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  public static factsOf(terminal: TerminalData): TerminalFacts {
+    return {
+      id: terminal.id,
+      name: terminal.name,
+      shellPath: terminal.shellPath,
+      cwd: terminal.cwd,
+      isTransient: terminal.creationOptions?.isTransient,
+      hideFromUser: terminal.creationOptions?.hideFromUser,
+    };
+  }
+
+  private static matches(rule: AccessRule, facts: TerminalFacts): boolean {
+    return (
+      AccessPolicy.matchesPattern(rule.name, facts.name) &&
+      AccessPolicy.matchesPattern(rule.shellPath, facts.shellPath) &&
+      AccessPolicy.matchesPattern(rule.cwd, facts.cwd) &&
+      (rule.isTransient === undefined || rule.isTransient === Boolean(facts.isTransient)) &&
+      (rule.hideFromUser === undefined || rule.hideFromUser === Boolean(facts.hideFromUser))
+    );
+  }
+
+  private static matchesPattern(pattern: RegExp | undefined, value: string | undefined): boolean {
+    return !pattern || (value !== undefined && pattern.test(value));
+  }
+}
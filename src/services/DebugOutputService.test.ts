@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { DebugOutputService } from './DebugOutputService';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const vscodeMock = vscode as any;
+const trackerFactories = vscodeMock.debug._mockTrackerFactories;
+const mockOnDidStartDebugSession = vscodeMock.debug._mockOnDidStartDebugSession;
+const mockOnDidTerminateDebugSession = vscodeMock.debug._mockOnDidTerminateDebugSession;
+
+describe('DebugOutputService', () => {
+  let service: DebugOutputService;
+  const session = { id: 'session-1', name: 'Launch Program', type: 'node' };
+
+  function send(output: string, category?: string) {
+    for (const factory of trackerFactories) {
+      factory.createDebugAdapterTracker(session)?.onDidSendMessage?.({
+        type: 'event',
+        event: 'output',
+        body: { category, output },
+      });
+    }
+  }
+
+  beforeEach(() => {
+    service = new DebugOutputService({ enabled: true, maxBufferLines: 100 });
+    service.initialize();
+    mockOnDidStartDebugSession.fire(session);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should capture output events by category', () => {
+    send('Debugger attached.\n', 'console');
+    send('listening on 3000\n', 'stdout');
+    send('\x1b[31mTypeError: boom\x1b[0m\n', 'stderr');
+
+    const data = service.getSession()!;
+    expect(data.name).toBe('Launch Program');
+    expect(service.getOutput(data).map(l => [l.category, l.text])).toEqual([
+      ['console', 'Debugger attached.'],
+      ['stdout', 'listening on 3000'],
+      ['stderr', 'TypeError: boom'],
+    ]);
+    expect(service.getOutput(data, undefined, ['stderr']).map(l => l.text)).toEqual(['TypeError: boom']);
+  });
+
+  it('should join output split across events and flush it when the session ends', () => {
+    send('Compil', 'stdout');
+    send('ing...\ndone', 'stdout');
+    expect(service.getOutput(service.getSession()!).map(l => l.text)).toEqual(['Compiling...']);
+
+    mockOnDidTerminateDebugSession.fire(session);
+
+    const data = service.getSession('launch program')!;
+    expect(data.endedAt).toBeInstanceOf(Date);
+    expect(service.getOutput(data).map(l => l.text)).toEqual(['Compiling...', 'done']);
+  });
+
+  it('should ignore telemetry and keep within the line limit', () => {
+    service.updateSettings({ enabled: true, maxBufferLines: 2 });
+
+    send('{"event":"x"}\n', 'telemetry');
+    send('one\ntwo\nthree\n', 'stdout');
+
+    const data = service.getSession()!;
+    expect(service.getOutput(data).map(l => l.text)).toEqual(['two', 'three']);
+    expect(data.droppedLines).toBe(1);
+  });
+
+  it('should not capture when capture is disabled', () => {
+    service.updateSettings({ enabled: false, maxBufferLines: 100 });
+
+    send('hello\n', 'stdout');
+
+    expect(service.getOutput(service.getSession()!)).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { renderPlainText } from './AnsiRenderer';
+import { CaptureSettings } from './TerminalBufferService';
+
+/** Debug adapter output category, e.g. `console`, `stdout` or `stderr` */
+export type DebugOutputCategory = string;
+
+export interface DebugOutputLine {
+  category: DebugOutputCategory;
+  text: string;
+  timestamp: number;
+}
+
+export interface DebugSessionData {
+  id: string;
+  name: string;
+  /** Debugger type, e.g. `node` or `python` */
+  type: string;
+  startedAt: Date;
+  endedAt: Date | undefined;
+  lines: DebugOutputLine[];
+  /** Lines dropped from the start to stay under maxBufferLines */
+  droppedLines: number;
+}
+
+type DebugCaptureSettings = Pick<CaptureSettings, 'enabled' | 'maxBufferLines'>;
+
+/**
+ * Captures what debug adapters send to the Debug Console. Output events are
+ * observed through a debug adapter tracker, so every debugger type is covered
+ * without it knowing about the extension.
+ */
+export class DebugOutputService {
+  private static readonly MAX_ENDED_SESSIONS = 20;
+
+  private sessions: Map<string, DebugSessionData> = new Map();
+  /** Output not yet ended by a newline, per session and category */
+  private partialLines: Map<string, Map<DebugOutputCategory, string>> = new Map();
+  private settings: DebugCaptureSettings;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(settings: DebugCaptureSettings = { enabled: true, maxBufferLines: 10000 }) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: DebugCaptureSettings): void {
+    this.settings = settings;
+
+    for (const session of this.sessions.values()) {
+      this.trim(session);
+    }
+  }
+
+  public initialize(): void {
+    this.disposables.push(
+      vscode.debug.registerDebugAdapterTrackerFactory('*', {
+        createDebugAdapterTracker: session => ({
+          onDidSendMessage: message => {
+            if (message?.type === 'event' && message.event === 'output') {
+              this.captureOutput(session, message.body ?? {});
+            }
+          },
+        }),
+      })
+    );
+
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(session => {
+        this.getSessionData(session);
+      })
+    );
+
+    this.disposables.push(
+      vscode.debug.onDidTerminateDebugSession(session => {
+        this.endSession(session);
+      })
+    );
+  }
+
+  /** Newest first */
+  public getSessions(): DebugSessionData[] {
+    return [...this.sessions.values()].reverse();
+  }
+
+  /** The session with this id or name, ignoring case, or else the latest one when no name is given */
+  public getSession(nameOrId?: string): DebugSessionData | undefined {
+    const sessions = this.getSessions();
+    if (nameOrId === undefined) {
+      return sessions[0];
+    }
+
+    const search = nameOrId.toLowerCase();
+    return this.sessions.get(nameOrId) ?? sessions.find(s => s.name.toLowerCase() === search);
+  }
+
+  /** The last `lines` lines of a session, limited to the given categories when any are given */
+  public getOutput(session: DebugSessionData, lines?: number, categories?: DebugOutputCategory[]): DebugOutputLine[] {
+    const output = categories?.length ? session.lines.filter(l => categories.includes(l.category)) : session.lines;
+    return lines !== undefined ? output.slice(-lines) : output;
+  }
+
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.sessions.clear();
+    this.partialLines.clear();
+  }
+
+  private captureOutput(session: vscode.DebugSession, body: { category?: string; output?: string }): void {
+    const category = body.category ?? 'console';
+    // Telemetry is for the debugger's authors, not something the program printed
+    if (!this.settings.enabled || !body.output || category === 'telemetry') {
+      return;
+    }
+
+    const sessionData = this.getSessionData(session);
+    let partials = this.partialLines.get(session.id);
+    if (!partials) {
+      partials = new Map();
+      this.partialLines.set(session.id, partials);
+    }
+    const text = (partials.get(category) ?? '') + body.output;
+    const end = text.lastIndexOf('\n');
+
+    partials.set(category, text.slice(end + 1));
+    if (end >= 0) {
+      this.appendLines(sessionData, category, text.slice(0, end));
+    }
+  }
+
+  private appendLines(session: DebugSessionData, category: DebugOutputCategory, text: string): void {
+    const timestamp = Date.now();
+    for (const line of renderPlainText(text)) {
+      session.lines.push({ category, text: line, timestamp });
+    }
+    this.trim(session);
+  }
+
+  private trim(session: DebugSessionData): void {
+    const excess = session.lines.length - this.settings.maxBufferLines;
+    if (excess > 0) {
+      session.lines.splice(0, excess);
+      session.droppedLines += excess;
+    }
+  }
+
+  private getSessionData(session: vscode.DebugSession): DebugSessionData {
+    let sessionData = this.sessions.get(session.id);
+
+    if (!sessionData) {
+      sessionData = {
+        id: session.id,
+        name: session.name,
+        type: session.type,
+        startedAt: new Date(),
+        endedAt: undefined,
+        lines: [],
+        droppedLines: 0,
+      };
+      this.sessions.set(session.id, sessionData);
+      this.partialLines.set(session.id, new Map());
+    }
+
+    return sessionData;
+  }
+
+  private endSession(session: vscode.DebugSession): void {
+    const sessionData = this.sessions.get(session.id);
+    if (!sessionData) {
+      return;
+    }
+
+    // Flush output the program wrote without a final newline
+    for (const [category, text] of this.partialLines.get(session.id) ?? []) {
+      if (text) {
+        this.appendLines(sessionData, category, text);
+      }
+    }
+    this.partialLines.delete(session.id);
+    sessionData.endedAt = new Date();
+
+    const ended = [...this.sessions.values()].filter(s => s.endedAt);
+    for (const stale of ended.slice(0, Math.max(0, ended.length - DebugOutputService.MAX_ENDED_SESSIONS))) {
+      this.sessions.delete(stale.id);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDiagnostics, TerminalDiagnostic } from './ErrorParser';
+
+/** Reads a captured log the way TerminalBufferService stores it: trimmed, spaces collapsed, no blank lines */
+function fixture(name: string): string[] {
+  return fs
+    .readFileSync(path.join(__dirname, '__fixtures__', 'errors', `${name}.log`), 'utf-8')
+    .replace(/  +/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+function summarize(diagnostics: TerminalDiagnostic[]) {
+  return diagnostics.map(d => [d.source, d.file, d.line, d.column, d.severity, d.code, d.message]);
+}
+
+describe('parseDiagnostics', () => {
+  it('should parse tsc errors in both output styles', () => {
+    expect(summarize(parseDiagnostics(fixture('tsc')))).toEqual([
+      ['tsc', 'src/config.ts', 12, 5, 'error', 'TS2322', "Type 'string' is not assignable to type 'number'."],
+      ['tsc', 'src/extension.ts', 40, 18, 'error', 'TS2339', "Property 'foo' does not exist on type 'ExtensionContext'."],
+      ['tsc', 'src/services/MCPServer.ts', 88, 3, 'error', 'TS2554', 'Expected 1 arguments, but got 2.'],
+    ]);
+  });
+
+  it('should parse eslint problems under their file', () => {
+    expect(summarize(parseDiagnostics(fixture('eslint')))).toEqual([
+      ['eslint', '/home/dev/app/src/index.ts', 12, 5, 'error', '@typescript-eslint/no-unused-vars', "'result' is assigned a value but never used"],
+      ['eslint', '/home/dev/app/src/index.ts', 30, 1, 'warning', 'no-console', 'Unexpected console statement'],
+      ['eslint', '/home/dev/app/src/util.js', 4, 10, 'error', undefined, 'Parsing error: Unexpected token )'],
+    ]);
+  });
+
+  it('should parse biome diagnostics', () => {
+    expect(summarize(parseDiagnostics(fixture('biome')))).toEqual([
+      ['biome', 'src/api.ts', 7, 21, 'error', 'lint/suspicious/noExplicitAny', 'Unexpected any. Specify a different type.'],
+      ['biome', 'src/api.ts', 15, 3, 'warning', 'lint/style/useConst', 'This let declares a variable that is only assigned once.'],
+    ]);
+  });
+
+  it('should locate jest failures at the first frame outside node_modules', () => {
+    const [failure, ...rest] = parseDiagnostics(fixture('jest'));
+
+    expect(rest).toEqual([]);
+    expect(summarize([failure])).toEqual([
+      ['jest', 'src/math.test.ts', 12, 23, 'error', undefined, 'expect(received).toBe(expected) // Object.is equality'],
+    ]);
+    expect(failure.details).toEqual(['math › adds', 'Expected: 3', 'Received: 4']);
+  });
+
+  it('should parse vitest failures', () => {
+    const [failure, ...rest] = parseDiagnostics(fixture('vitest'));
+
+    expect(rest).toEqual([]);
+    expect(summarize([failure])).toEqual([
+      ['vitest', 'src/math.test.ts', 12, 23, 'error', undefined, 'AssertionError: expected 4 to be 3 // Object.is equality'],
+    ]);
+    expect(failure.details?.[0]).toBe('math > adds');
+  });
+
+  it('should report Python tracebacks at the innermost frame outside site-packages', () => {
+    const [failure, ...rest] = parseDiagnostics(fixture('python'));
+
+    expect(rest).toEqual([]);
+    expect(summarize([failure])).toEqual([
+      ['python', '/home/dev/app/parse.py', 3, undefined, 'error', 'ValueError', "ValueError: invalid literal for int() with base 10: 'abc'"],
+    ]);
+    expect(failure.details).toHaveLength(4);
+  });
+
+  it('should report Node stack traces at the first frame in the project', () => {
+    const [failure, ...rest] = parseDiagnostics(fixture('node'));
+
+    expect(rest).toEqual([]);
+    expect(summarize([failure])).toEqual([
+      ['node', '/home/dev/app/src/server.js', 27, 30, 'error', 'TypeError', "TypeError: Cannot read properties of undefined (reading 'port')"],
+    ]);
+    expect(failure.details?.[0]).toBe('startServer /home/dev/app/src/server.js:27:30');
+  });
+
+  it('should parse Go build errors, test failures and panics', () => {
+    const diagnostics = parseDiagnostics(fixture('go'));
+
+    expect(summarize(diagnostics)).toEqual([
+      ['go', './main.go', 12, 5, 'error', undefined, 'undefined: loadConfig'],
+      ['go', './main.go', 20, 2, 'error', undefined, 'declared and not used: port'],
+      ['go', 'math_test.go', 9, undefined, 'error', undefined, 'got 4, want 3'],
+      ['go', '/home/dev/app/pick.go', 8, undefined, 'error', 'panic', 'panic: runtime error: index out of range [5] with length 3'],
+    ]);
+    expect(diagnostics[2].details).toEqual(['TestAdd']);
+  });
+
+  it('should parse Rust errors and warnings that have a location', () => {
+    expect(summarize(parseDiagnostics(fixture('rust')))).toEqual([
+      ['rust', 'src/main.rs', 4, 18, 'error', 'E0308', 'mismatched types'],
+      ['rust', 'src/lib.rs', 10, 9, 'warning', undefined, 'unused variable: `y`'],
+    ]);
+  });
+
+  it('should fall back to file:line:col patterns and skip notes', () => {
+    expect(summarize(parseDiagnostics(fixture('generic')))).toEqual([
+      ['generic', 'main.c', 3, 5, 'error', undefined, "'count' undeclared (first use in this function)"],
+      ['generic', 'main.c', 9, 1, 'warning', undefined, 'control reaches end of non-void function [-Wreturn-type]'],
+      ['generic', 'app/models.py', 22, undefined, 'error', undefined, 'Incompatible return value type (got "str", expected "int") [return-value]'],
+    ]);
+  });
+
+  it('should resolve relative paths against the working directory and record the command', () => {
+    const [relative, absolute] = parseDiagnostics(
+      ['src/a.ts(1,2): error TS1005: ";" expected.', '/tmp/b.ts(3,4): error TS1005: ";" expected.'],
+      { command: 'npx tsc', cwd: '/home/dev/app' }
+    );
+
+    expect(relative.file).toBe(path.resolve('/home/dev/app', 'src/a.ts'));
+    expect(absolute.file).toBe('/tmp/b.ts');
+    expect(relative.command).toBe('npx tsc');
+  });
+
+  it('should report the same problem once', () => {
+    const line = 'src/a.ts(1,2): error TS1005: ";" expected.';
+
+    expect(parseDiagnostics([line, 'Watching for file changes.', line])).toHaveLength(1);
+  });
+
+  it('should find nothing in ordinary output', () => {
+    expect(parseDiagnostics(['$ ls', 'README.md', 'package.json', 'Server listening on http://localhost:3000'])).toEqual([]);
+  });
+});
@@ -0,0 +1,514 @@
+import * as path from 'path';
+
+export type DiagnosticSource =
+  | 'tsc'
+  | 'eslint'
+  | 'biome'
+  | 'jest'
+  | 'vitest'
+  | 'python'
+  | 'node'
+  | 'go'
+  | 'rust'
+  | 'generic';
+
+export interface TerminalDiagnostic {
+  /** As printed, or resolved against the command's working directory when relative */
+  file: string | undefined;
+  /** 1-based */
+  line: number | undefined;
+  /** 1-based */
+  column: number | undefined;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Error code or lint rule, e.g. `TS2322` or `no-unused-vars` */
+  code: string | undefined;
+  /** Which parser recognised the output */
+  source: DiagnosticSource;
+  /** Command line whose output it was found in */
+  command: string | undefined;
+  /** Supporting lines such as the failing test's name, expected values or stack frames */
+  details?: string[];
+}
+
+export interface ParseOptions {
+  command?: string;
+  /** Relative paths are resolved against this */
+  cwd?: string;
+}
+
+type ParsedDiagnostic = Omit<TerminalDiagnostic, 'source' | 'command'>;
+
+interface ParseResult {
+  diagnostics: ParsedDiagnostic[];
+  /** Number of lines the diagnostics were read from, at least 1 */
+  consumed: number;
+}
+
+interface Parser {
+  source: DiagnosticSource;
+  /** Tries to read diagnostics starting at `lines[index]` */
+  parse(lines: string[], index: number): ParseResult | undefined;
+}
+
+// Input is cleaned terminal output: lines are trimmed, runs of spaces are
+// collapsed and blank lines are gone, so indentation cannot be relied on
+
+// How far a parser looks ahead for the rest of a multi-line report
+const MAX_BLOCK_LINES = 40;
+const MAX_DETAIL_LINES = 10;
+
+const TSC_PLAIN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.+)$/;
+const TSC_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.+)$/;
+
+const ESLINT_FILE = /^(?:[A-Za-z]:\\|\/|\.{1,2}\/)?[^\s:]+\.(?:[cm]?[jt]sx?|vue|svelte|astro|json|md|css|html)$/;
+const ESLINT_PROBLEM = /^(\d+):(\d+) (error|warning) (.+)$/;
+const ESLINT_RULE = /^(?:@[\w-]+\/)?[\w-]+(?:\/[\w-]+)*$/;
+
+const BIOME_HEADER = /^(.+?):(\d+):(\d+) ((?:lint|parse|assist)\/\S+|\w+)(?: FIXABLE)? ━+$/;
+const BIOME_MESSAGE = /^([✖×⚠!]) (.+)$/;
+
+const JEST_HEADER = /^● (.+)$/;
+const JEST_END = /^(?:●|PASS |FAIL |Test Suites:|Tests:)/;
+const CODE_FRAME = /^>? ?\d+ \|/;
+
+const VITEST_HEADER = /^FAIL (\S+) > (.+)$/;
+const VITEST_LOCATION = /^❯ (.+?):(\d+):(\d+)$/;
+
+const PYTHON_HEADER = /^Traceback \(most recent call last\):$/;
+const PYTHON_FRAME = /^File "(.+)", line (\d+)(?:, in (.+))?$/;
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt|Iteration|Fault))(?:: (.*))?$/;
+const PYTHON_GENERIC_EXCEPTION = /^([A-Z][\w.]*): (.+)$/;
+
+const NODE_ERROR = /^(?:Uncaught )?((?:[A-Z]\w*)?(?:Error|Exception))(?: \[([\w.]+)\])?: (.+)$/;
+const STACK_FRAME = /^at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+const GO_LOCATION = /^(\S+\.go):(\d+)(?::(\d+))?: (.+)$/;
+const GO_TEST_FAILURE = /^--- FAIL: (\S+)/;
+const GO_PANIC = /^panic: (.+)$/;
+const GO_PANIC_FRAME = /^(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/;
+
+const RUST_HEADER = /^(error|warning)(?:\[(\w+)\])?: (.+)$/;
+const RUST_LOCATION = /^--> (.+?):(\d+):(\d+)$/;
+
+const GENERIC_WITH_COLUMN = /^(\S+?\.[A-Za-z0-9]+):(\d+):(\d+)(?::| -)? (?:(fatal error|error|warning|note)(?:\[[^\]]*\])?:? )?(.+)$/i;
+const GENERIC_WITH_SEVERITY = /^(\S+?\.[A-Za-z0-9]+):(\d+): (error|warning|note): (.+)$/i;
+
+/** Frames in dependencies and runtimes are rarely where the fix goes */
+function isLibraryPath(file: string): boolean {
+  return /node_modules|^node:|^internal\/|site-packages|[\\/]lib[\\/]python|^\/usr\/(?:local\/)?go\/|^runtime\//.test(file);
+}
+
+function single(diagnostic: ParsedDiagnostic): ParseResult {
+  return { diagnostics: [diagnostic], consumed: 1 };
+}
+
+/** Matches of `pattern` on the lines from `start` up to the first line it does not match */
+function matchRun(lines: string[], start: number, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  for (const line of lines.slice(start)) {
+    const match = pattern.exec(line);
+    if (!match) {
+      break;
+    }
+    matches.push(match);
+  }
+  return matches;
+}
+
+function toSeverity(word: string | undefined): 'error' | 'warning' {
+  return word?.toLowerCase() === 'warning' ? 'warning' : 'error';
+}
+
+const tscParser: Parser = {
+  source: 'tsc',
+  parse(lines, index) {
+    const match = TSC_PLAIN.exec(lines[index]) ?? TSC_PRETTY.exec(lines[index]);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, file, line, column, severity, code, message] = match;
+    return single({ file, line: Number(line), column: Number(column), severity: toSeverity(severity), message, code });
+  },
+};
+
+/** The stylish formatter: a file path followed by one line per problem */
+const eslintParser: Parser = {
+  source: 'eslint',
+  parse(lines, index) {
+    if (!ESLINT_FILE.test(lines[index])) {
+      return undefined;
+    }
+
+    const file = lines[index];
+    const diagnostics: ParsedDiagnostic[] = [];
+    const problems = matchRun(lines, index + 1, ESLINT_PROBLEM);
+
+    for (const match of problems) {
+      const [, line, column, severity, rest] = match;
+      const words = rest.split(' ');
+      const rule = words.length > 1 && ESLINT_RULE.test(words[words.length - 1]) ? words.pop() : undefined;
+
+      diagnostics.push({
+        file,
+        line: Number(line),
+        column: Number(column),
+        severity: toSeverity(severity),
+        message: words.join(' '),
+        code: rule,
+      });
+    }
+
+    return diagnostics.length > 0 ? { diagnostics, consumed: problems.length + 1 } : undefined;
+  },
+};
+
+const biomeParser: Parser = {
+  source: 'biome',
+  parse(lines, index) {
+    const header = BIOME_HEADER.exec(lines[index]);
+    if (!header) {
+      return undefined;
+    }
+
+    for (let next = index + 1; next < Math.min(lines.length, index + 4); next++) {
+      const message = BIOME_MESSAGE.exec(lines[next]);
+      if (message) {
+        const [, file, line, column, category] = header;
+        return {
+          diagnostics: [{
+            file,
+            line: Number(line),
+            column: Number(column),
+            severity: message[1] === '⚠' || message[1] === '!' ? 'warning' : 'error',
+            message: message[2],
+            code: category,
+          }],
+          consumed: next - index + 1,
+        };
+      }
+    }
+
+    return undefined;
+  },
+};
+
+/** `● suite › test`, the assertion message, a code frame and the stack */
+const jestParser: Parser = {
+  source: 'jest',
+  parse(lines, index) {
+    const header = JEST_HEADER.exec(lines[index]);
+    if (!header) {
+      return undefined;
+    }
+
+    const messages: string[] = [];
+    let location: RegExpExecArray | null = null;
+    let next = index + 1;
+
+    for (; next < Math.min(lines.length, index + MAX_BLOCK_LINES) && !JEST_END.test(lines[next]); next++) {
+      const frame = STACK_FRAME.exec(lines[next]);
+      if (frame) {
+        if (!isLibraryPath(frame[2])) {
+          location = frame;
+          next++;
+          break;
+        }
+      } else if (!CODE_FRAME.test(lines[next]) && !/^\|/.test(lines[next])) {
+        messages.push(lines[next]);
+      }
+    }
+
+    return {
+      diagnostics: [{
+        file: location?.[2],
+        line: location ? Number(location[3]) : undefined,
+        column: location ? Number(location[4]) : undefined,
+        severity: 'error',
+        message: messages[0] ?? header[1],
+        code: undefined,
+        details: [header[1], ...messages.slice(1, MAX_DETAIL_LINES)],
+      }],
+      consumed: next - index,
+    };
+  },
+};
+
+/** `FAIL file > suite > test`, the assertion message and `❯ file:line:col` */
+const vitestParser: Parser = {
+  source: 'vitest',
+  parse(lines, index) {
+    const header = VITEST_HEADER.exec(lines[index]);
+    if (!header) {
+      return undefined;
+    }
+
+    const messages: string[] = [];
+    for (let next = index + 1; next < Math.min(lines.length, index + MAX_BLOCK_LINES); next++) {
+      const location = VITEST_LOCATION.exec(lines[next]);
+      if (location) {
+        return {
+          diagnostics: [{
+            file: location[1],
+            line: Number(location[2]),
+            column: Number(location[3]),
+            severity: 'error',
+            message: messages[0] ?? header[2],
+            code: undefined,
+            details: [header[2], ...messages.slice(1, MAX_DETAIL_LINES)],
+          }],
+          consumed: next - index + 1,
+        };
+      }
+      if (VITEST_HEADER.test(lines[next])) {
+        break;
+      }
+      messages.push(lines[next]);
+    }
+
+    return single({ file: header[1], line: undefined, column: undefined, severity: 'error', message: header[2], code: undefined });
+  },
+};
+
+/** Reported at the innermost frame in the project's own code */
+const pythonParser: Parser = {
+  source: 'python',
+  parse(lines, index) {
+    if (!PYTHON_HEADER.test(lines[index])) {
+      return undefined;
+    }
+
+    const frames: RegExpExecArray[] = [];
+    let afterFrame = false;
+
+    for (let next = index + 1; next < Math.min(lines.length, index + MAX_BLOCK_LINES * 2); next++) {
+      const line = lines[next];
+      const frame = PYTHON_FRAME.exec(line);
+      if (frame) {
+        frames.push(frame);
+        afterFrame = true;
+        continue;
+      }
+
+      // The line right after a frame is usually its source, unless it names an exception
+      const exception = PYTHON_EXCEPTION.exec(line) ?? (afterFrame ? null : PYTHON_GENERIC_EXCEPTION.exec(line));
+      if (exception && frames.length > 0) {
+        const own = [...frames].reverse().find(f => !isLibraryPath(f[1])) ?? frames[frames.length - 1];
+        return {
+          diagnostics: [{
+            file: own[1],
+            line: Number(own[2]),
+            column: undefined,
+            severity: 'error',
+            message: exception[2] ? `${exception[1]}: ${exception[2]}` : exception[1],
+            code: exception[1],
+            details: frames.slice(-MAX_DETAIL_LINES).map(f => `${f[1]}:${f[2]}${f[3] ? ` in ${f[3]}` : ''}`),
+          }],
+          consumed: next - index + 1,
+        };
+      }
+      afterFrame = false;
+    }
+
+    return undefined;
+  },
+};
+
+/** An error line directly followed by V8 `at` frames */
+const nodeParser: Parser = {
+  source: 'node',
+  parse(lines, index) {
+    const error = NODE_ERROR.exec(lines[index]);
+    if (!error || index + 1 >= lines.length || !STACK_FRAME.test(lines[index + 1])) {
+      return undefined;
+    }
+
+    const frames = matchRun(lines, index + 1, STACK_FRAME);
+
+    const own = frames.find(f => !isLibraryPath(f[2])) ?? frames[0];
+    return {
+      diagnostics: [{
+        file: own[2],
+        line: Number(own[3]),
+        column: Number(own[4]),
+        severity: 'error',
+        message: `${error[1]}: ${error[3]}`,
+        code: error[2] ?? error[1],
+        details: frames.slice(0, MAX_DETAIL_LINES).map(f => `${f[1] ? `${f[1]} ` : ''}${f[2]}:${f[3]}:${f[4]}`),
+      }],
+      consumed: frames.length + 1,
+    };
+  },
+};
+
+/** Build and vet errors, `go test` failures and panics */
+const goParser: Parser = {
+  source: 'go',
+  parse(lines, index) {
+    const panic = GO_PANIC.exec(lines[index]);
+    if (panic) {
+      for (let next = index + 1; next < Math.min(lines.length, index + MAX_BLOCK_LINES); next++) {
+        const frame = GO_PANIC_FRAME.exec(lines[next]);
+        if (frame && !isLibraryPath(frame[1])) {
+          return {
+            diagnostics: [{ file: frame[1], line: Number(frame[2]), column: undefined, severity: 'error', message: `panic: ${panic[1]}`, code: 'panic' }],
+            consumed: next - index + 1,
+          };
+        }
+      }
+      return single({ file: undefined, line: undefined, column: undefined, severity: 'error', message: `panic: ${panic[1]}`, code: 'panic' });
+    }
+
+    const test = GO_TEST_FAILURE.exec(lines[index]);
+    if (test) {
+      const locations = matchRun(lines, index + 1, GO_LOCATION);
+      const diagnostics = locations.map(match => ({ ...goLocation(match), details: [test[1]] }));
+      return diagnostics.length > 0 ? { diagnostics, consumed: locations.length + 1 } : undefined;
+    }
+
+    const location = GO_LOCATION.exec(lines[index]);
+    return location ? single(goLocation(location)) : undefined;
+  },
+};
+
+function goLocation([, file, line, column, message]: RegExpExecArray): ParsedDiagnostic {
+  return {
+    file,
+    line: Number(line),
+    column: column ? Number(column) : undefined,
+    severity: 'error',
+    message,
+    code: undefined,
+  };
+}
+
+/** `error[E0308]: message` followed by `--> file:line:col` */
+const rustParser: Parser = {
+  source: 'rust',
+  parse(lines, index) {
+    const header = RUST_HEADER.exec(lines[index]);
+    if (!header) {
+      return undefined;
+    }
+
+    for (let next = index + 1; next < Math.min(lines.length, index + 3); next++) {
+      const location = RUST_LOCATION.exec(lines[next]);
+      if (location) {
+        return {
+          diagnostics: [{
+            file: location[1],
+            line: Number(location[2]),
+            column: Number(location[3]),
+            severity: toSeverity(header[1]),
+            message: header[3],
+            code: header[2],
+          }],
+          consumed: next - index + 1,
+        };
+      }
+    }
+
+    return undefined;
+  },
+};
+
+/** `file:line:col: message` as printed by gcc, clang, mypy and many others */
+const genericParser: Parser = {
+  source: 'generic',
+  parse(lines, index) {
+    let file: string, line: string, column: string | undefined, severity: string | undefined, message: string;
+
+    const withColumn = GENERIC_WITH_COLUMN.exec(lines[index]);
+    const withSeverity = GENERIC_WITH_SEVERITY.exec(lines[index]);
+    if (withColumn) {
+      [, file, line, column, severity, message] = withColumn;
+    } else if (withSeverity) {
+      [, file, line, severity, message] = withSeverity;
+    } else {
+      return undefined;
+    }
+
+    if (severity?.toLowerCase() === 'note') {
+      return { diagnostics: [], consumed: 1 };
+    }
+
+    return single({
+      file,
+      line: Number(line),
+      column: column ? Number(column) : undefined,
+      severity: toSeverity(severity),
+      message,
+      code: undefined,
+    });
+  },
+};
+
+// Tried in order at every line. Specific formats come before the generic
+// `file:line:col` one, which several of them would also match.
+const PARSERS: Parser[] = [
+  tscParser,
+  biomeParser,
+  eslintParser,
+  jestParser,
+  vitestParser,
+  pythonParser,
+  nodeParser,
+  goParser,
+  rustParser,
+  genericParser,
+];
+
+/**
+ * Finds compiler errors, lint problems, test failures and uncaught
+ * exceptions in cleaned terminal output. Each line is read by at most one
+ * parser, and repeated reports of the same problem are returned once.
+ */
+export function parseDiagnostics(lines: string[], options: ParseOptions = {}): TerminalDiagnostic[] {
+  const diagnostics: TerminalDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (let index = 0; index < lines.length;) {
+    let result: ParseResult | undefined;
+    let source: DiagnosticSource | undefined;
+
+    for (const parser of PARSERS) {
+      result = parser.parse(lines, index);
+      if (result) {
+        source = parser.source;
+        break;
+      }
+    }
+
+    if (!result || !source) {
+      index++;
+      continue;
+    }
+
+    for (const parsed of result.diagnostics) {
+      const diagnostic: TerminalDiagnostic = {
+        ...parsed,
+        file: parsed.file && options.cwd ? resolveFile(parsed.file, options.cwd) : parsed.file,
+        source,
+        command: options.command,
+      };
+
+      const key = [diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.message].join('\0');
+      if (!seen.has(key)) {
+        seen.add(key);
+        diagnostics.push(diagnostic);
+      }
+    }
+    index += result.consumed;
+  }
+
+  return diagnostics;
+}
+
+/** Leaves placeholders such as Python's `<stdin>` and URLs alone */
+function resolveFile(file: string, cwd: string): string {
+  if (path.isAbsolute(file) || /^[<\w]+:|^</.test(file)) {
+    return file;
+  }
+  return path.resolve(cwd, file);
+}
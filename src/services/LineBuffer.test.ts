@@ -0,0 +1,143 @@
+import { LineBuffer } from './LineBuffer';
+
+function fill(buffer: LineBuffer, count: number): void {
+  for (let i = 0; i < count; i++) {
+    buffer.push(`line ${i}`, 1000 + i);
+  }
+}
+
+describe('LineBuffer', () => {
+  it('should assign increasing sequence numbers and timestamps', () => {
+    const buffer = new LineBuffer(10);
+    fill(buffer, 3);
+
+    expect(buffer.length).toBe(3);
+    expect(buffer.slice().map(l => l.seq)).toEqual([0, 1, 2]);
+    expect(buffer.at(1)).toEqual({ seq: 1, text: 'line 1', timestamp: 1001 });
+    expect(buffer.nextSeq).toBe(3);
+  });
+
+  it('should overwrite the oldest lines when full', () => {
+    const buffer = new LineBuffer(3);
+    fill(buffer, 5);
+
+    expect(buffer.length).toBe(3);
+    expect(buffer.texts()).toEqual(['line 2', 'line 3', 'line 4']);
+    expect(buffer.firstSeq).toBe(2);
+  });
+
+  it('should slice like an array', () => {
+    const buffer = new LineBuffer(4);
+    fill(buffer, 6);
+
+    expect(buffer.slice(1, 3).map(l => l.text)).toEqual(['line 3', 'line 4']);
+    expect(buffer.slice(-2).map(l => l.text)).toEqual(['line 4', 'line 5']);
+    expect(buffer.tail(10).length).toBe(4);
+    expect(buffer.tail(0)).toEqual([]);
+    expect(buffer.at(4)).toBeUndefined();
+  });
+
+  it('should read since a cursor with paging', () => {
+    const buffer = new LineBuffer(10);
+    fill(buffer, 5);
+
+    const page = buffer.since(1, 2);
+    expect(page.lines.map(l => l.text)).toEqual(['line 1', 'line 2']);
+    expect(page.nextCursor).toBe(3);
+    expect(page.hasMore).toBe(true);
+    expect(page.dropped).toBe(0);
+
+    const rest = buffer.since(page.nextCursor);
+    expect(rest.lines.map(l => l.text)).toEqual(['line 3', 'line 4']);
+    expect(rest.nextCursor).toBe(5);
+    expect(rest.hasMore).toBe(false);
+
+    const empty = buffer.since(rest.nextCursor);
+    expect(empty.lines).toEqual([]);
+    expect(empty.nextCursor).toBe(5);
+  });
+
+  it('should read a time range from its start, or up to its end without one', () => {
+    const buffer = new LineBuffer(10);
+    fill(buffer, 10);
+    const texts = (read: ReturnType<LineBuffer['between']>) => read.lines.map(l => l.text);
+
+    const range = buffer.between({ since: 1003, until: 1006 });
+    expect(texts(range)).toEqual(['line 3', 'line 4', 'line 5', 'line 6']);
+    expect(range.nextCursor).toBe(7);
+    expect(range.hasMore).toBe(false);
+
+    const page = buffer.between({ since: 1003 }, 2);
+    expect(texts(page)).toEqual(['line 3', 'line 4']);
+    expect(page.nextCursor).toBe(5);
+    expect(page.hasMore).toBe(true);
+
+    expect(texts(buffer.between({ until: 1005 }, 2))).toEqual(['line 4', 'line 5']);
+
+    const empty = buffer.between({ since: 2000 });
+    expect(empty.lines).toEqual([]);
+    expect(empty.nextCursor).toBe(10);
+  });
+
+  it('should report lines dropped before the cursor could read them', () => {
+    const buffer = new LineBuffer(3);
+    fill(buffer, 8);
+
+    const read = buffer.since(2);
+    expect(read.dropped).toBe(3);
+    expect(read.lines.map(l => l.seq)).toEqual([5, 6, 7]);
+  });
+
+  it('should keep sequence numbers increasing after clear', () => {
+    const buffer = new LineBuffer(5);
+    fill(buffer, 3);
+    buffer.clear();
+
+    expect(buffer.length).toBe(0);
+    expect(buffer.since(1).dropped).toBe(2);
+
+    buffer.push('after clear');
+    expect(buffer.at(0)?.seq).toBe(3);
+  });
+
+  it('should track the retained text length', () => {
+    const buffer = new LineBuffer(2);
+    buffer.push('abc');
+    buffer.push('de');
+    expect(buffer.textLength).toBe(5);
+
+    buffer.push('f');
+    expect(buffer.textLength).toBe(3);
+
+    buffer.clear();
+    expect(buffer.textLength).toBe(0);
+  });
+
+  it('should drop the oldest lines', () => {
+    const buffer = new LineBuffer(5);
+    fill(buffer, 5);
+
+    buffer.dropOldest(2);
+    expect(buffer.texts()).toEqual(['line 2', 'line 3', 'line 4']);
+    expect(buffer.firstSeq).toBe(2);
+    expect(buffer.textLength).toBe(18);
+
+    buffer.push('line 5');
+    buffer.dropOldest(10);
+    expect(buffer.length).toBe(0);
+    expect(buffer.nextSeq).toBe(6);
+  });
+
+  it('should keep the newest lines when resized', () => {
+    const buffer = new LineBuffer(5);
+    fill(buffer, 5);
+
+    buffer.resize(2);
+    expect(buffer.texts()).toEqual(['line 3', 'line 4']);
+
+    buffer.resize(4);
+    buffer.push('line 5');
+    expect(buffer.texts()).toEqual(['line 3', 'line 4', 'line 5']);
+    expect(buffer.firstSeq).toBe(3);
+  });
+});
@@ -0,0 +1,195 @@
+import type { TimeRange } from './TimeRange';
+
+export interface BufferedLine {
+  /** Monotonically increasing per buffer, never reused after trimming or clearing */
+  seq: number;
+  text: string;
+  timestamp: number;
+}
+
+export interface BufferRead {
+  lines: BufferedLine[];
+  /** Cursor to pass to the next read to continue after the returned lines */
+  nextCursor: number;
+  /** Lines between the cursor and the oldest retained line that were trimmed */
+  dropped: number;
+  /** More lines are available after nextCursor */
+  hasMore: boolean;
+}
+
+/**
+ * Fixed-capacity ring buffer of captured lines. Pushing past capacity
+ * overwrites the oldest line instead of copying the whole buffer.
+ */
+export class LineBuffer {
+  private slots: (BufferedLine | undefined)[];
+  private start = 0;
+  private count = 0;
+  private seq = 0;
+  private chars = 0;
+
+  constructor(private maxLines: number) {
+    this.slots = new Array(maxLines);
+  }
+
+  public get length(): number {
+    return this.count;
+  }
+
+  public get capacity(): number {
+    return this.maxLines;
+  }
+
+  /** Total length of the retained lines' text */
+  public get textLength(): number {
+    return this.chars;
+  }
+
+  /** Sequence number of the oldest retained line */
+  public get firstSeq(): number {
+    return this.seq - this.count;
+  }
+
+  /** Sequence number the next pushed line will get */
+  public get nextSeq(): number {
+    return this.seq;
+  }
+
+  public push(text: string, timestamp: number = Date.now()): BufferedLine {
+    const line: BufferedLine = { seq: this.seq++, text, timestamp };
+
+    if (this.maxLines === 0) {
+      return line;
+    }
+
+    if (this.count < this.maxLines) {
+      this.slots[(this.start + this.count) % this.maxLines] = line;
+      this.count++;
+    } else {
+      this.chars -= this.slots[this.start]?.text.length ?? 0;
+      this.slots[this.start] = line;
+      this.start = (this.start + 1) % this.maxLines;
+    }
+    this.chars += text.length;
+
+    return line;
+  }
+
+  /** Line at a logical index, 0 being the oldest retained line */
+  public at(index: number): BufferedLine | undefined {
+    if (index < 0 || index >= this.count) {
+      return undefined;
+    }
+    return this.slots[(this.start + index) % this.maxLines];
+  }
+
+  /** Same semantics as Array.prototype.slice over the retained lines */
+  public slice(start: number = 0, end: number = this.count): BufferedLine[] {
+    const from = start < 0 ? Math.max(0, this.count + start) : Math.min(start, this.count);
+    const to = end < 0 ? Math.max(0, this.count + end) : Math.min(end, this.count);
+    const result: BufferedLine[] = [];
+
+    for (let i = from; i < to; i++) {
+      const line = this.at(i);
+      if (line) {
+        result.push(line);
+      }
+    }
+
+    return result;
+  }
+
+  public tail(lines: number): BufferedLine[] {
+    return lines > 0 ? this.slice(-lines) : [];
+  }
+
+  /** Reads lines with a sequence number of at least `cursor` */
+  public since(cursor: number, limit?: number): BufferRead {
+    const firstSeq = this.firstSeq;
+    const dropped = Math.max(0, firstSeq - cursor);
+    const from = Math.max(cursor, firstSeq) - firstSeq;
+    const to = limit !== undefined ? Math.min(this.count, from + limit) : this.count;
+    const lines = this.slice(from, to);
+
+    return {
+      lines,
+      nextCursor: lines.length > 0 ? lines[lines.length - 1].seq + 1 : Math.min(Math.max(cursor, firstSeq), this.seq),
+      dropped,
+      hasMore: to < this.count,
+    };
+  }
+
+  /**
+   * Reads lines captured within a time range. With a start, up to `limit`
+   * lines from it are returned; with only an end, the last `limit` before it.
+   */
+  public between(range: TimeRange, limit?: number): BufferRead {
+    const lines = this.slice();
+    // Timestamps only grow, so each bound is the first line past it
+    const firstWhere = (predicate: (line: BufferedLine) => boolean): number => {
+      const index = lines.findIndex(predicate);
+      return index < 0 ? lines.length : index;
+    };
+    const { since, until } = range;
+    const from = since === undefined ? 0 : firstWhere(line => line.timestamp >= since);
+    const end = until === undefined ? lines.length : Math.max(from, firstWhere(line => line.timestamp > until));
+
+    let start = from;
+    let to = end;
+    if (limit !== undefined && range.since === undefined) {
+      start = Math.max(from, end - limit);
+    } else if (limit !== undefined) {
+      to = Math.min(end, from + limit);
+    }
+
+    return {
+      lines: lines.slice(start, to),
+      nextCursor: to < lines.length ? lines[to].seq : this.seq,
+      dropped: 0,
+      hasMore: to < end,
+    };
+  }
+
+  public texts(): string[] {
+    return this.slice().map(line => line.text);
+  }
+
+  /** Drops all lines. Sequence numbers keep increasing so cursors stay valid. */
+  public clear(): void {
+    this.slots = new Array(this.maxLines);
+    this.start = 0;
+    this.count = 0;
+    this.chars = 0;
+  }
+
+  /** Drops up to `lines` of the oldest retained lines */
+  public dropOldest(lines: number): void {
+    const dropped = Math.min(Math.max(0, lines), this.count);
+
+    for (let i = 0; i < dropped; i++) {
+      this.chars -= this.slots[this.start]?.text.length ?? 0;
+      this.slots[this.start] = undefined;
+      this.start = (this.start + 1) % this.maxLines;
+    }
+    this.count -= dropped;
+  }
+
+  /** Changes the capacity, keeping the newest lines that fit */
+  public resize(maxLines: number): void {
+    const retained = this.tail(maxLines);
+    this.maxLines = maxLines;
+    this.slots = new Array(maxLines);
+    this.start = 0;
+    this.count = 0;
+    this.chars = 0;
+
+    for (const line of retained) {
+      this.slots[this.count++] = line;
+      this.chars += line.text.length;
+    }
+  }
+
+  public [Symbol.iterator](): Iterator<BufferedLine> {
+    return this.slice()[Symbol.iterator]();
+  }
+}
@@ -1,5 +1,34 @@
-import * as vscode from 'vscode';
-import { TerminalBufferService } from './TerminalBufferService';
+import { AccessPolicy } from './AccessPolicy';
+import { CommandRunner } from './CommandRunner';
+import { DebugOutputService } from './DebugOutputService';
+import { CHARS_PER_TOKEN, SummaryReport, summarizeOutput } from './OutputSummarizer';
+import { RedactionCounts, Redactor } from './Redactor';
+import { buildTimeline, formatTimeline, timelineLabels } from './Timeline';
+import { parseTimeRange, TimeRange } from './TimeRange';
+import {
+  CommandRecord,
+  FailureFilter,
+  FailureRecord,
+  OutputFormat,
+  SearchResult,
+  TerminalBufferService,
+  TaskRun,
+  TerminalData,
+  TerminalFilter,
+} from './TerminalBufferService';
+
+/** JSON-RPC error code for a terminal name that matches more than one terminal. `data.candidates` lists them. */
+export const AMBIGUOUS_TERMINAL_ERROR = -32002;
+
+/** Thrown by tool handlers and turned into an AMBIGUOUS_TERMINAL_ERROR response */
+class AmbiguousTerminalError extends Error {
+  constructor(public readonly nameOrId: string, public readonly candidates: TerminalData[]) {
+    super(`"${nameOrId}" matches ${candidates.length} terminals. Use one of the candidate ids instead.`);
+  }
+}
+
+/** Thrown by tool handlers for arguments of the wrong type and turned into a -32602 response */
+class InvalidParamsError extends Error {}
 
 export interface MCPRequest {
   jsonrpc: string;
@@ -19,18 +48,68 @@ export interface MCPResponse {
   };
 }
 
+export interface MCPNotification {
+  jsonrpc: string;
+  method: string;
+  params?: any;
+}
+
+/** A connected bridge client that can receive server-initiated notifications */
+export interface MCPClient {
+  send(notification: MCPNotification): void;
+}
+
+type TerminalResourceView = 'output' | 'commands' | 'stats';
+
+interface TerminalResourceUri {
+  terminalId: string;
+  view: TerminalResourceView;
+}
+
 export class MCPServer {
   private static readonly SERVER_NAME = 'terminal-hook';
   private static readonly SERVER_VERSION = '1.0.0';
   private static readonly PROTOCOL_VERSION = '2024-11-05';
+  private static readonly RESOURCE_SCHEME = 'terminal://';
+  private static readonly UPDATE_DEBOUNCE_MS = 250;
+  private static readonly MAX_WAIT_MS = 300000;
+  private static readonly OUTPUT_FORMATS: OutputFormat[] = ['clean', 'raw', 'preserve_whitespace', 'html'];
+  private static readonly RESOURCE_VIEWS: Record<TerminalResourceView, { mimeType: string; description: string }> = {
+    output: {
+      mimeType: 'text/plain',
+      description: 'Captured output of the terminal',
+    },
+    commands: {
+      mimeType: 'application/json',
+      description: 'Commands run in the terminal with exit codes and timing',
+    },
+    stats: {
+      mimeType: 'application/json',
+      description: 'Buffer size and activity of the terminal',
+    },
+  };
 
   private initialized = false;
+  private clients: Set<MCPClient> = new Set();
+  private subscriptions: Map<string, Set<MCPClient>> = new Map();
+  private pendingUpdates: Set<string> = new Set();
+  private updateTimer: ReturnType<typeof setTimeout> | undefined;
 
-  constructor(private terminalService: TerminalBufferService) {}
+  constructor(
+    private terminalService: TerminalBufferService,
+    private commandRunner?: CommandRunner,
+    private redactor: Redactor = new Redactor(),
+    private accessPolicy: AccessPolicy = new AccessPolicy(),
+    private debugOutput?: DebugOutputService
+  ) {}
 
-  public handleRequest(request: MCPRequest): MCPResponse | null {
+  public async handleRequest(request: MCPRequest, client?: MCPClient): Promise<MCPResponse | null> {
     const { method, params, id } = request;
 
+    if (client) {
+      this.clients.add(client);
+    }
+
     if (id === undefined) {
       this.handleNotification(method, params);
       return null;
@@ -50,7 +129,19 @@ export class MCPServer {
         return this.handleToolsCall(id, params);
       
       case 'resources/list':
-        return this.createResponse(id, { resources: [] });
+        return this.handleResourcesList(id);
+
+      case 'resources/templates/list':
+        return this.handleResourceTemplatesList(id);
+
+      case 'resources/read':
+        return this.handleResourcesRead(id, params);
+
+      case 'resources/subscribe':
+        return this.handleSubscribe(id, params, client);
+
+      case 'resources/unsubscribe':
+        return this.handleUnsubscribe(id, params, client);
       
       case 'prompts/list':
         return this.createResponse(id, { prompts: [] });
@@ -71,6 +162,10 @@ export class MCPServer {
       protocolVersion: MCPServer.PROTOCOL_VERSION,
       capabilities: {
         tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
       },
       serverInfo: {
         name: MCPServer.SERVER_NAME,
@@ -79,20 +174,237 @@ export class MCPServer {
     });
   }
 
+  private handleSubscribe(id: number | string, params: any, client?: MCPClient): MCPResponse {
+    const uri: string | undefined = params?.uri;
+
+    if (!client) {
+      return this.createErrorResponse(id, -32600, 'Subscriptions require a persistent connection');
+    }
+
+    const resource = uri ? this.parseTerminalUri(uri) : undefined;
+    if (!uri || !resource || !this.getResourceTerminal(resource.terminalId)) {
+      return this.createErrorResponse(id, -32602, `Unknown resource: ${uri}`);
+    }
+
+    let subscribers = this.subscriptions.get(uri);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(uri, subscribers);
+    }
+    subscribers.add(client);
+
+    return this.createResponse(id, {});
+  }
+
+  private handleUnsubscribe(id: number | string, params: any, client?: MCPClient): MCPResponse {
+    const uri: string | undefined = params?.uri;
+    const subscribers = uri ? this.subscriptions.get(uri) : undefined;
+
+    if (uri && client && subscribers) {
+      subscribers.delete(client);
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(uri);
+      }
+    }
+
+    return this.createResponse(id, {});
+  }
+
+  /**
+   * Queues `notifications/resources/updated` for every subscribed resource of
+   * the terminal. Updates are debounced so a burst of output sends one message.
+   */
+  public notifyTerminalOutput(terminalId: string): void {
+    for (const uri of this.subscriptions.keys()) {
+      if (this.parseTerminalUri(uri)?.terminalId === terminalId) {
+        this.pendingUpdates.add(uri);
+      }
+    }
+
+    if (this.pendingUpdates.size > 0 && !this.updateTimer) {
+      this.updateTimer = setTimeout(() => this.flushUpdates(), MCPServer.UPDATE_DEBOUNCE_MS);
+    }
+  }
+
+  /** Tells every connected client that terminals were added or removed */
+  public notifyResourceListChanged(): void {
+    const notification: MCPNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/resources/list_changed',
+    };
+
+    for (const client of this.clients) {
+      try {
+        client.send(notification);
+      } catch (error) {
+        console.error('Failed to notify MCP client:', error);
+      }
+    }
+  }
+
+  public removeClient(client: MCPClient): void {
+    this.clients.delete(client);
+    for (const [uri, subscribers] of this.subscriptions) {
+      subscribers.delete(client);
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(uri);
+      }
+    }
+  }
+
+  public dispose(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = undefined;
+    }
+    this.pendingUpdates.clear();
+    this.subscriptions.clear();
+    this.clients.clear();
+  }
+
+  private flushUpdates(): void {
+    this.updateTimer = undefined;
+
+    for (const uri of this.pendingUpdates) {
+      const notification: MCPNotification = {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri },
+      };
+
+      for (const client of this.subscriptions.get(uri) ?? []) {
+        try {
+          client.send(notification);
+        } catch (error) {
+          console.error('Failed to notify MCP client:', error);
+        }
+      }
+    }
+
+    this.pendingUpdates.clear();
+  }
+
+  private handleResourcesList(id: number | string): MCPResponse {
+    const terminals = this.getExposedTerminals();
+    const views = Object.keys(MCPServer.RESOURCE_VIEWS) as TerminalResourceView[];
+
+    return this.createResponse(id, {
+      resources: terminals.flatMap(t =>
+        views.map(view => ({
+          uri: this.createTerminalUri(t.id, view),
+          name: `${t.name || t.id} (${view})`,
+          description: MCPServer.RESOURCE_VIEWS[view].description,
+          mimeType: MCPServer.RESOURCE_VIEWS[view].mimeType,
+        }))
+      ),
+    });
+  }
+
+  private handleResourceTemplatesList(id: number | string): MCPResponse {
+    const views = Object.keys(MCPServer.RESOURCE_VIEWS) as TerminalResourceView[];
+
+    return this.createResponse(id, {
+      resourceTemplates: views.map(view => ({
+        uriTemplate: `${MCPServer.RESOURCE_SCHEME}{terminal_id}/${view}`,
+        name: `Terminal ${view}`,
+        description: MCPServer.RESOURCE_VIEWS[view].description,
+        mimeType: MCPServer.RESOURCE_VIEWS[view].mimeType,
+      })),
+    });
+  }
+
+  private handleResourcesRead(id: number | string, params: any): MCPResponse {
+    const uri: string | undefined = params?.uri;
+    const resource = uri ? this.parseTerminalUri(uri) : undefined;
+    const terminal = resource ? this.getResourceTerminal(resource.terminalId) : undefined;
+
+    if (!uri || !resource || !terminal) {
+      return this.createErrorResponse(id, -32602, `Unknown resource: ${uri}`);
+    }
+
+    let text: string;
+    switch (resource.view) {
+      case 'output':
+        text = this.terminalService.getTerminalBuffer(terminal.id) || '';
+        break;
+
+      case 'commands':
+        text = JSON.stringify(terminal.commands.map(c => this.formatCommand(c)), null, 2);
+        break;
+
+      case 'stats': {
+        const stats = this.terminalService.getTerminalStats(terminal.id);
+        text = JSON.stringify({
+          id: terminal.id,
+          name: terminal.name,
+          processId: terminal.processId,
+          totalLines: stats?.totalLines ?? terminal.buffer.length,
+          bufferSize: stats?.bufferSize,
+          commandCount: terminal.commands.length,
+          createdAt: terminal.createdAt.toISOString(),
+          lastActivity: terminal.lastActivity.toISOString(),
+        }, null, 2);
+        break;
+      }
+    }
+
+    const counts: RedactionCounts = {};
+    text = this.redactor.redact(text, counts);
+    const redactions = Redactor.report(counts);
+
+    return this.createResponse(id, {
+      contents: [
+        {
+          uri,
+          mimeType: MCPServer.RESOURCE_VIEWS[resource.view].mimeType,
+          text,
+        },
+      ],
+      ...(redactions && { _meta: { redactions } }),
+    });
+  }
+
+  private createTerminalUri(terminalId: string, view: TerminalResourceView): string {
+    return `${MCPServer.RESOURCE_SCHEME}${encodeURIComponent(terminalId)}/${view}`;
+  }
+
+  /** Parses a `terminal://<id>/<view>` URI */
+  private parseTerminalUri(uri: string): TerminalResourceUri | undefined {
+    if (!uri.startsWith(MCPServer.RESOURCE_SCHEME)) {
+      return undefined;
+    }
+
+    const [encodedId, view, ...rest] = uri.slice(MCPServer.RESOURCE_SCHEME.length).split('/');
+    if (!encodedId || rest.length > 0 || !Object.prototype.hasOwnProperty.call(MCPServer.RESOURCE_VIEWS, view)) {
+      return undefined;
+    }
+
+    try {
+      return { terminalId: decodeURIComponent(encodedId), view: view as TerminalResourceView };
+    } catch {
+      return undefined;
+    }
+  }
+
   private handleToolsList(id: number | string): MCPResponse {
     return this.createResponse(id, {
       tools: [
         {
           name: 'list_terminals',
-          description: 'List all active VSCode terminals with their metadata (name, process ID, buffer size, activity).',
+          description: 'List all active VSCode terminals with their metadata (name, process ID, buffer size, activity). Closed terminals are kept for a while and can be read like open ones.',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              include_closed: {
+                type: 'boolean',
+                description: 'Also list recently closed terminals, including ones from before the window was reloaded (default: false)',
+              },
+            },
           },
         },
         {
           name: 'get_terminal_output',
-          description: 'Get recent output from a VSCode terminal buffer. Use list_terminals first to see available terminals.',
+          description: 'Get recent output from a VSCode terminal buffer. Use list_terminals first to see available terminals. Pass the returned next_cursor as since to only fetch new output.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -102,93 +414,1211 @@ export class MCPServer {
               },
               lines: {
                 type: 'number',
-                description: 'Number of lines to return (default: 100)',
+                description: 'Number of lines to return (default: 100). With since, the maximum number of lines to return.',
                 default: 100,
               },
+              since: {
+                type: ['number', 'string'],
+                description: 'A number is a cursor from a previous next_cursor and returns only lines captured after it. A string is a time: an ISO timestamp, a duration before now like "2m" or "1h30m", or a local time of day like "14:32". Returns up to lines lines captured from then.',
+              },
+              until: {
+                type: 'string',
+                description: 'Only lines captured up to this time, in the same forms as since. Without since, returns the last lines lines before it.',
+              },
+              format: {
+                type: 'string',
+                enum: MCPServer.OUTPUT_FORMATS,
+                description: 'clean (default): ANSI codes and extra whitespace stripped. raw: output as written, escape sequences included. preserve_whitespace: ANSI codes stripped, indentation and column alignment kept. html: like preserve_whitespace with colours as styled spans.',
+                default: 'clean',
+              },
+              max_chars: {
+                type: 'number',
+                description: 'Character budget for the output. Larger output keeps its head, tail and error lines, with repeated lines collapsed and the rest replaced by markers saying what was left out. Clean format only.',
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Like max_chars, in tokens of about 4 characters',
+              },
+              summarize: {
+                type: 'boolean',
+                description: 'Collapse runs of repeated or near-identical lines, such as progress updates, even when within budget (default: false). Clean format only.',
+                default: false,
+              },
             },
             required: ['terminal_name'],
           },
         },
-      ],
-    });
-  }
-
-  private handleToolsCall(id: number | string, params: any): MCPResponse {
-    const { name, arguments: args } = params;
-
-    try {
-      let result: any;
-
-      switch (name) {
-        case 'list_terminals':
-          result = this.listTerminals();
-          break;
-        
-        case 'get_terminal_output':
-          result = this.getTerminalOutput(args);
-          break;
-        
-        default:
-          return this.createErrorResponse(id, -32601, `Unknown tool: ${name}`);
-      }
-
-      return this.createResponse(id, {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
+        {
+          name: 'get_terminal_screen',
+          description: 'Get what is currently displayed in a VSCode terminal, reconstructed by replaying its output through a terminal emulator. Use for progress bars, spinners and full-screen programs (top, vim, less) whose raw output is unreadable.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_name: {
+                type: 'string',
+                description: 'Terminal name or ID. Use list_terminals to see available options.',
+              },
+              scrollback_lines: {
+                type: 'number',
+                description: 'Number of lines that scrolled off the top of the screen to include, with redraws already applied (default: 0)',
+                default: 0,
+              },
+            },
+            required: ['terminal_name'],
           },
-        ],
-      });
-    } catch (error: any) {
-      return this.createErrorResponse(id, -32603, `Tool execution error: ${error.message}`);
-    }
-  }
-
-  private listTerminals(): any {
-    const terminals = this.terminalService.getAllTerminals();
-    
-    return {
-      success: true,
-      count: terminals.length,
-      terminals: terminals.map(t => ({
-        id: t.id,
-        name: t.name || '(unnamed)',
-        processId: t.processId,
-        bufferLines: t.buffer.length,
-        lastActivity: t.lastActivity.toISOString(),
-      })),
-    };
-  }
-
-  private getTerminalOutput(args: any): any {
-    const { terminal_name, lines = 100 } = args;
-
-    if (!terminal_name) {
-      return {
-        success: false,
-        error: 'terminal_name is required. Use list_terminals to see available terminals.',
-      };
-    }
-
-    const terminal = this.terminalService.getTerminal(terminal_name);
-    
-    if (!terminal) {
-      const available = this.terminalService.getAllTerminals();
-      return {
-        success: false,
-        error: `Terminal "${terminal_name}" not found`,
-        available_terminals: available.map(t => t.name || t.id),
-      };
-    }
-
-    const buffer = this.terminalService.getTerminalBuffer(terminal_name, lines);
-
-    return {
-      success: true,
-      terminal: terminal.name || terminal.id,
-      output: buffer || '',
-      lines_returned: buffer?.split('\n').length || 0,
+        },
+        {
+          name: 'list_commands',
+          description: 'List the commands run in a VSCode terminal (command line, cwd, timing, exit code), detected via shell integration.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_name: {
+                type: 'string',
+                description: 'Terminal name or ID. Use list_terminals to see available options.',
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of most recent commands to return (default: 20)',
+                default: 20,
+              },
+            },
+            required: ['terminal_name'],
+          },
+        },
+        {
+          name: 'get_command_output',
+          description: 'Get the output of a single command run in a VSCode terminal. Use list_commands to see command IDs.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_name: {
+                type: 'string',
+                description: 'Terminal name or ID. Use list_terminals to see available options.',
+              },
+              command_id: {
+                type: 'number',
+                description: 'Command ID from list_commands (default: most recent command)',
+              },
+              lines: {
+                type: 'number',
+                description: 'Number of lines to return from the end of the command output (default: all)',
+              },
+            },
+            required: ['terminal_name'],
+          },
+        },
+        {
+          name: 'get_last_failure',
+          description: 'Get the most recent command that exited with a non-zero code across all terminals, with the tail of its output.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tail_lines: {
+                type: 'number',
+                description: 'Number of output lines to include from the end of the failed command (default: 50)',
+                default: 50,
+              },
+            },
+          },
+        },
+        {
+          name: 'get_recent_failures',
+          description: 'Get the most recent commands that exited with a non-zero code, newest first.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'Maximum number of failures to return (default: 5)',
+                default: 5,
+              },
+              tail_lines: {
+                type: 'number',
+                description: 'Number of output lines to include per failure (default: 20)',
+                default: 20,
+              },
+              terminal_name: {
+                type: 'string',
+                description: 'Only return failures from this terminal name or ID',
+              },
+            },
+          },
+        },
+        {
+          name: 'search_terminal_output',
+          description: 'Search captured terminal output for a literal string or regular expression. Returns matching lines with line numbers, terminal IDs, timestamps and surrounding context.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern: {
+                type: 'string',
+                description: 'Text or regular expression to search for',
+              },
+              terminal_name: {
+                type: 'string',
+                description: 'Only search this terminal name or ID (default: all terminals)',
+              },
+              regex: {
+                type: 'boolean',
+                description: 'Treat pattern as a regular expression (default: false)',
+                default: false,
+              },
+              case_sensitive: {
+                type: 'boolean',
+                description: 'Match case exactly (default: false)',
+                default: false,
+              },
+              context_before: {
+                type: 'number',
+                description: 'Number of lines to include before each match (default: 0)',
+                default: 0,
+              },
+              context_after: {
+                type: 'number',
+                description: 'Number of lines to include after each match (default: 0)',
+                default: 0,
+              },
+              max_results: {
+                type: 'number',
+                description: 'Maximum number of matches to return (default: 100)',
+                default: 100,
+              },
+              since: {
+                type: 'string',
+                description: 'Only search lines captured from this time: an ISO timestamp, a duration before now like "5m", or a local time of day like "14:32"',
+              },
+              until: {
+                type: 'string',
+                description: 'Only search lines captured up to this time, in the same forms as since',
+              },
+            },
+            required: ['pattern'],
+          },
+        },
+        {
+          name: 'get_timeline',
+          description: 'Merge the output of several VSCode terminals into one chronological stream, each line prefixed with its time and terminal. Use to correlate a frontend, backend and worker running in separate terminals.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_names: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Terminal names or IDs to merge (default: all open terminals)',
+              },
+              include_closed: {
+                type: 'boolean',
+                description: 'Also merge recently closed terminals when terminal_names is not given (default: false)',
+                default: false,
+              },
+              since: {
+                type: 'string',
+                description: 'Only lines captured from this time: an ISO timestamp, a duration before now like "5m", or a local time of day like "14:32"',
+              },
+              until: {
+                type: 'string',
+                description: 'Only lines captured up to this time, in the same forms as since',
+              },
+              pattern: {
+                type: 'string',
+                description: 'Regular expression lines must match, e.g. "error|request id 42"',
+              },
+              case_sensitive: {
+                type: 'boolean',
+                description: 'Match pattern case exactly (default: false)',
+                default: false,
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of lines to return: the first ones from since, or else the most recent (default: 200)',
+                default: 200,
+              },
+            },
+          },
+        },
+        {
+          name: 'wait_for_output',
+          description: 'Wait until new output in a VSCode terminal matches a regular expression, a command in it finishes, or the timeout elapses. Use after starting a dev server or test run instead of polling get_terminal_output.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_name: {
+                type: 'string',
+                description: 'Terminal name or ID. Use list_terminals to see available options.',
+              },
+              pattern: {
+                type: 'string',
+                description: 'Regular expression to wait for, e.g. "ready in|error"',
+              },
+              timeout_ms: {
+                type: 'number',
+                description: 'Maximum time to wait in milliseconds (default: 30000, max: 300000)',
+                default: 30000,
+              },
+              case_sensitive: {
+                type: 'boolean',
+                description: 'Match case exactly (default: false)',
+                default: false,
+              },
+              context_lines: {
+                type: 'number',
+                description: 'Number of lines to return around the match (default: 5)',
+                default: 5,
+              },
+            },
+            required: ['terminal_name', 'pattern'],
+          },
+        },
+        {
+          name: 'list_tasks',
+          description: 'List recent VSCode task runs (builds, test runs, watchers) with their status, exit code, terminal and the problems their problem matchers reported.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: 'Maximum number of runs to return, newest first (default: 20)',
+                default: 20,
+              },
+            },
+          },
+        },
+        {
+          name: 'get_task_output',
+          description: 'Get the terminal output and reported problems of the latest run of a VSCode task. Only output written while that run was active is returned.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_name: {
+                type: 'string',
+                description: 'Task name, e.g. "build". Use list_tasks to see available tasks.',
+              },
+              lines: {
+                type: 'number',
+                description: 'Number of lines to return from the end of the output (default: 100)',
+                default: 100,
+              },
+            },
+            required: ['task_name'],
+          },
+        },
+        {
+          name: 'get_terminal_errors',
+          description: 'Extract structured errors from a VSCode terminal: compiler errors (tsc, Go, Rust, gcc), lint problems (eslint, biome), failing jest/vitest tests and Python or Node stack traces, each with file, line, column, message and the command that printed it.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              terminal_name: {
+                type: 'string',
+                description: 'Terminal name or ID. Use list_terminals to see available options.',
+              },
+              command_id: {
+                type: 'number',
+                description: 'Only parse the output of this command from list_commands (default: the 20 most recent commands)',
+              },
+              lines: {
+                type: 'number',
+                description: 'Only parse this many lines from the end of each command, or of the terminal when no commands are recorded (default: all, or 1000 without commands)',
+              },
+              severity: {
+                type: 'string',
+                enum: ['error', 'warning'],
+                description: 'Only return diagnostics of this severity (default: both)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of diagnostics to return, newest last (default: 50)',
+                default: 50,
+              },
+            },
+            required: ['terminal_name'],
+          },
+        },
+        ...(this.commandRunner ? [MCPServer.RUN_IN_TERMINAL_TOOL] : []),
+        ...(this.debugOutput ? [MCPServer.GET_DEBUG_OUTPUT_TOOL] : []),
+      ],
+    });
+  }
+
+  private static readonly GET_DEBUG_OUTPUT_TOOL = {
+    name: 'get_debug_output',
+    description: 'Get what a debug session printed to the VSCode Debug Console, including program stdout and stderr. Also lists the recent debug sessions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_name: {
+          type: 'string',
+          description: 'Debug session name or ID (default: the latest session)',
+        },
+        lines: {
+          type: 'number',
+          description: 'Number of lines to return from the end of the output (default: 100)',
+          default: 100,
+        },
+        categories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only return these output categories, e.g. ["stderr"]. Common ones are console, stdout, stderr and important.',
+        },
+      },
+    },
+  };
+
+  private static readonly RUN_IN_TERMINAL_TOOL = {
+    name: 'run_in_terminal',
+    description: 'Run a command in a VSCode terminal and return its output and exit code once it finishes. Requires the "terminalHook.runInTerminal.enabled" setting, and the user must confirm every command.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: {
+          type: 'string',
+          description: 'Command line to execute',
+        },
+        terminal_name: {
+          type: 'string',
+          description: 'Existing terminal name or ID to run in. Omit to create a new terminal.',
+        },
+        new_terminal_name: {
+          type: 'string',
+          description: 'Name for the new terminal when terminal_name is omitted (default: "Terminal Hook")',
+        },
+        timeout_ms: {
+          type: 'number',
+          description: 'Maximum time to wait for the command to finish in milliseconds (default: 60000, max: 300000)',
+          default: 60000,
+        },
+      },
+      required: ['command'],
+    },
+  };
+
+  private async handleToolsCall(id: number | string, params: any): Promise<MCPResponse> {
+    const { name, arguments: args } = params;
+
+    try {
+      let result: any;
+
+      switch (name) {
+        case 'list_terminals':
+          result = this.listTerminals(args);
+          break;
+        
+        case 'get_terminal_output':
+          result = this.getTerminalOutput(args);
+          break;
+
+        case 'get_terminal_screen':
+          result = this.getTerminalScreen(args);
+          break;
+
+        case 'list_commands':
+          result = this.listCommands(args);
+          break;
+
+        case 'get_command_output':
+          result = this.getCommandOutput(args);
+          break;
+
+        case 'get_last_failure':
+          result = this.getLastFailure(args);
+          break;
+
+        case 'get_recent_failures':
+          result = this.getRecentFailures(args);
+          break;
+
+        case 'search_terminal_output':
+          result = this.searchTerminalOutput(args);
+          break;
+
+        case 'get_timeline':
+          result = this.getTimeline(args);
+          break;
+
+        case 'wait_for_output':
+          result = await this.waitForOutput(args);
+          break;
+
+        case 'list_tasks':
+          result = this.listTasks(args);
+          break;
+
+        case 'get_task_output':
+          result = this.getTaskOutput(args);
+          break;
+
+        case 'get_terminal_errors':
+          result = this.getTerminalErrors(args);
+          break;
+
+        case 'run_in_terminal':
+          if (!this.commandRunner) {
+            return this.createErrorResponse(id, -32601, `Unknown tool: ${name}`);
+          }
+          result = await this.runInTerminal(this.commandRunner, args);
+          break;
+
+        case 'get_debug_output':
+          if (!this.debugOutput) {
+            return this.createErrorResponse(id, -32601, `Unknown tool: ${name}`);
+          }
+          result = this.getDebugOutput(this.debugOutput, args);
+          break;
+        
+        default:
+          return this.createErrorResponse(id, -32601, `Unknown tool: ${name}`);
+      }
+
+      // Every tool result is scrubbed here, so no output reaches the client unredacted
+      const counts: RedactionCounts = {};
+      result = this.redactor.redactValue(result, counts);
+      const redactions = Redactor.report(counts);
+      if (redactions) {
+        result = { ...result, redactions };
+      }
+
+      return this.createResponse(id, {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      });
+    } catch (error: any) {
+      if (error instanceof InvalidParamsError) {
+        return this.createErrorResponse(id, -32602, error.message);
+      }
+      if (error instanceof AmbiguousTerminalError) {
+        return this.createErrorResponse(id, AMBIGUOUS_TERMINAL_ERROR, error.message, {
+          terminal_name: error.nameOrId,
+          candidates: error.candidates.map(t => ({
+            id: t.id,
+            name: t.name,
+            processId: t.processId,
+            cwd: t.cwd,
+            ...(t.closedAt && { closed: true }),
+          })),
+        });
+      }
+      return this.createErrorResponse(id, -32603, `Tool execution error: ${error.message}`);
+    }
+  }
+
+  private listTerminals(args: any): any {
+    const { include_closed = false } = args || {};
+    const terminals = this.getExposedTerminals(include_closed);
+    
+    return {
+      success: true,
+      count: terminals.length,
+      terminals: terminals.map(t => ({
+        id: t.id,
+        name: t.name || '(unnamed)',
+        processId: t.processId,
+        shellPath: t.shellPath,
+        shellType: t.shellType,
+        cwd: t.cwd,
+        workspaceFolder: t.workspaceFolder,
+        isTask: t.isTask ?? false,
+        creationOptions: t.creationOptions,
+        bufferLines: t.buffer.length,
+        lastActivity: t.lastActivity.toISOString(),
+        ...(t.closedAt && { closed: true, closedAt: t.closedAt.toISOString() }),
+      })),
+    };
+  }
+
+  private getTerminalOutput(args: any): any {
+    const { terminal_name, lines = 100, since, until, format = 'clean', max_chars, max_tokens, summarize = false } = args;
+
+    if (!terminal_name) {
+      return {
+        success: false,
+        error: 'terminal_name is required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    if (!MCPServer.OUTPUT_FORMATS.includes(format)) {
+      return {
+        success: false,
+        error: `Unknown format "${format}". Expected one of: ${MCPServer.OUTPUT_FORMATS.join(', ')}`,
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+    
+    if (!terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    if (format !== 'clean') {
+      if (since !== undefined || until !== undefined) {
+        return { success: false, error: 'since and until are only supported with the clean format' };
+      }
+
+      if (max_chars !== undefined || max_tokens !== undefined || summarize) {
+        return { success: false, error: 'max_chars, max_tokens and summarize are only supported with the clean format' };
+      }
+
+      if (!terminal.raw) {
+        return {
+          success: false,
+          error: `Raw output is not captured. Enable the "terminalHook.rawCapture.enabled" setting to use the ${format} format.`,
+        };
+      }
+
+      const output = this.terminalService.getTerminalBuffer(terminal.id, lines, format, this.redactLine) || '';
+
+      return {
+        success: true,
+        terminal: terminal.name || terminal.id,
+        format,
+        output,
+        lines_returned: output ? output.split('\n').length : 0,
+      };
+    }
+
+    const budget = [max_chars, max_tokens !== undefined ? max_tokens * CHARS_PER_TOKEN : undefined]
+      .filter((limit): limit is number => limit !== undefined);
+    const summarizeOptions = { maxChars: budget.length > 0 ? Math.min(...budget) : undefined, collapse: summarize };
+
+    // A number, even one sent as a string, is a cursor from next_cursor rather than a time
+    const cursor = typeof since === 'number' || /^\d+$/.test(since ?? '') ? Number(since) : undefined;
+    let range: TimeRange | undefined;
+
+    if (until !== undefined || (since !== undefined && cursor === undefined)) {
+      if (cursor !== undefined) {
+        return { success: false, error: 'until cannot be combined with a since cursor. Pass since as a time instead.' };
+      }
+
+      try {
+        range = parseTimeRange(since, until);
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+
+    if (cursor !== undefined || range) {
+      const read = cursor !== undefined
+        ? this.terminalService.readTerminalBuffer(terminal.id, cursor, lines)
+        : range && this.terminalService.readTerminalRange(terminal.id, range, lines);
+      const { lines: output, summary } = summarizeOutput(read?.lines.map(l => l.text) || [], summarizeOptions);
+
+      return {
+        success: true,
+        terminal: terminal.name || terminal.id,
+        output: output.join('\n'),
+        lines_returned: read?.lines.length || 0,
+        next_cursor: read?.nextCursor ?? cursor ?? terminal.buffer.nextSeq,
+        has_more: read?.hasMore || false,
+        lines_dropped: read?.dropped || 0,
+        ...(range && { range: MCPServer.formatRange(range) }),
+        ...(summary && { summary: MCPServer.formatSummary(summary) }),
+      };
+    }
+
+    const buffer = this.terminalService.getTerminalBuffer(terminal.id, lines);
+    const bufferLines = buffer ? buffer.split('\n') : [];
+    const { lines: output, summary } = summarizeOutput(bufferLines, summarizeOptions);
+
+    return {
+      success: true,
+      terminal: terminal.name || terminal.id,
+      output: output.join('\n'),
+      lines_returned: bufferLines.length,
+      next_cursor: terminal.buffer.nextSeq,
+      ...(summary && { summary: MCPServer.formatSummary(summary) }),
+    };
+  }
+
+  private static formatRange(range: TimeRange): any {
+    return {
+      since: range.since !== undefined ? new Date(range.since).toISOString() : undefined,
+      until: range.until !== undefined ? new Date(range.until).toISOString() : undefined,
+    };
+  }
+
+  private static formatSummary(summary: SummaryReport): any {
+    return {
+      original_lines: summary.originalLines,
+      original_chars: summary.originalChars,
+      returned_chars: summary.returnedChars,
+      collapsed_lines: summary.collapsedLines,
+      omitted_lines: summary.omittedLines,
+      kept_error_lines: summary.keptErrorLines,
+    };
+  }
+
+  private getTerminalScreen(args: any): any {
+    const { terminal_name, scrollback_lines = 0 } = args;
+
+    if (!terminal_name) {
+      return {
+        success: false,
+        error: 'terminal_name is required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+    const snapshot = terminal ? this.terminalService.getTerminalScreen(terminal.id, scrollback_lines) : null;
+
+    if (!terminal || !snapshot) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    // Blank rows below the cursor are just unused screen space
+    const lines = [...snapshot.lines];
+    while (lines.length > snapshot.cursor.row + 1 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    return {
+      success: true,
+      terminal: terminal.name || terminal.id,
+      columns: snapshot.columns,
+      rows: snapshot.rows,
+      cursor: { row: snapshot.cursor.row + 1, column: snapshot.cursor.column + 1 },
+      alternate_screen: snapshot.alternateScreen,
+      screen: lines.join('\n'),
+      ...(scrollback_lines > 0 ? { scrollback: snapshot.scrollback.join('\n') } : {}),
+    };
+  }
+
+  private listCommands(args: any): any {
+    const { terminal_name, limit = 20 } = args;
+
+    if (!terminal_name) {
+      return {
+        success: false,
+        error: 'terminal_name is required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+
+    if (!terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    const commands = this.terminalService.getCommands(terminal.id, limit) || [];
+
+    return {
+      success: true,
+      terminal: terminal.name || terminal.id,
+      count: commands.length,
+      commands: commands.map(c => this.formatCommand(c)),
+    };
+  }
+
+  private getCommandOutput(args: any): any {
+    const { terminal_name, command_id, lines } = args;
+
+    if (!terminal_name) {
+      return {
+        success: false,
+        error: 'terminal_name is required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+
+    if (!terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    const command = this.terminalService.getCommand(terminal.id, command_id);
+
+    if (!command) {
+      return {
+        success: false,
+        error: command_id === undefined
+          ? `No commands recorded for terminal "${terminal_name}". Shell integration may be disabled.`
+          : `Command ${command_id} not found in terminal "${terminal_name}"`,
+      };
+    }
+
+    const output = lines ? command.output.slice(-lines) : command.output;
+
+    return {
+      success: true,
+      terminal: terminal.name || terminal.id,
+      command: this.formatCommand(command),
+      output: output.join('\n'),
+      lines_returned: output.length,
+    };
+  }
+
+  private getTerminalErrors(args: any): any {
+    const { terminal_name, command_id, lines, severity, limit = 50 } = args;
+
+    if (!terminal_name) {
+      return {
+        success: false,
+        error: 'terminal_name is required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+
+    if (!terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    if (command_id !== undefined && !this.terminalService.getCommand(terminal.id, command_id)) {
+      return {
+        success: false,
+        error: `Command ${command_id} not found in terminal "${terminal_name}"`,
+      };
+    }
+
+    const diagnostics = (this.terminalService.getTerminalErrors(terminal.id, { commandId: command_id, lines }) || [])
+      .filter(d => severity === undefined || d.severity === severity);
+    const returned = diagnostics.slice(-limit);
+
+    return {
+      success: true,
+      terminal: terminal.name || terminal.id,
+      count: returned.length,
+      total: diagnostics.length,
+      errors: returned,
+    };
+  }
+
+  private getLastFailure(args: any): any {
+    const { tail_lines = 50 } = args || {};
+    const failure = this.terminalService.getLastFailure(this.isFailureExposed);
+
+    if (!failure) {
+      return {
+        success: true,
+        failure: null,
+        message: 'No failed commands recorded',
+      };
+    }
+
+    return {
+      success: true,
+      failure: this.formatFailure(failure, tail_lines),
+    };
+  }
+
+  private getRecentFailures(args: any): any {
+    const { limit = 5, tail_lines = 20, terminal_name } = args || {};
+    // Closed terminals resolve until history drops them, like for every other tool
+    const terminal = terminal_name ? this.getTerminal(terminal_name) : undefined;
+    if (terminal_name && !terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+    const failures = this.terminalService.getRecentFailures(limit, terminal?.id, this.isFailureExposed);
+
+    return {
+      success: true,
+      count: failures.length,
+      failures: failures.map(f => this.formatFailure(f, tail_lines)),
+    };
+  }
+
+  private searchTerminalOutput(args: any): any {
+    const {
+      pattern,
+      terminal_name,
+      regex = false,
+      case_sensitive = false,
+      context_before = 0,
+      context_after = 0,
+      max_results = 100,
+      since,
+      until,
+    } = args;
+
+    if (!pattern) {
+      return {
+        success: false,
+        error: 'pattern is required',
+      };
+    }
+
+    let range: TimeRange | undefined;
+    if (since !== undefined || until !== undefined) {
+      try {
+        range = parseTimeRange(since === undefined ? undefined : String(since), until === undefined ? undefined : String(until));
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+
+    const terminal = terminal_name ? this.getTerminal(terminal_name) : undefined;
+    if (terminal_name && !terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    let searchResult: SearchResult;
+    try {
+      searchResult = this.terminalService.search(pattern, {
+        terminal: terminal?.id,
+        filter: this.isExposed,
+        regex,
+        caseSensitive: case_sensitive,
+        before: context_before,
+        after: context_after,
+        maxResults: max_results,
+        range,
+        redact: this.redactLine,
+      });
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Invalid pattern: ${error.message}`,
+      };
+    }
+
+    return {
+      success: true,
+      count: searchResult.matches.length,
+      truncated: searchResult.truncated,
+      matches: searchResult.matches.map(m => ({
+        terminal_id: m.terminalId,
+        terminal: m.terminalName,
+        ...(this.terminalService.getTerminalById(m.terminalId)?.closedAt && { closed: true }),
+        line_number: m.lineNumber,
+        timestamp: m.timestamp.toISOString(),
+        line: m.line,
+        ...(m.before.length > 0 && { before: m.before }),
+        ...(m.after.length > 0 && { after: m.after }),
+      })),
+    };
+  }
+
+  private getTimeline(args: any): any {
+    const { terminal_names, include_closed = false, since, until, pattern, case_sensitive = false, limit = 200 } = args || {};
+
+    if (terminal_names !== undefined && !(Array.isArray(terminal_names) && terminal_names.every(n => typeof n === 'string'))) {
+      throw new InvalidParamsError('terminal_names must be an array of terminal names or ids');
+    }
+
+    const terminals: TerminalData[] = [];
+    if (terminal_names?.length) {
+      for (const name of terminal_names) {
+        const terminal = this.getTerminal(name);
+        if (!terminal) {
+          return this.terminalNotFound(name);
+        }
+        if (!terminals.includes(terminal)) {
+          terminals.push(terminal);
+        }
+      }
+    } else {
+      terminals.push(...this.getExposedTerminals(include_closed));
+    }
+
+    let range: TimeRange | undefined;
+    let matcher: RegExp | undefined;
+    try {
+      range = since !== undefined || until !== undefined ? parseTimeRange(since, until) : undefined;
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+    try {
+      matcher = pattern ? new RegExp(pattern, case_sensitive ? '' : 'i') : undefined;
+    } catch (error: any) {
+      return { success: false, error: `Invalid pattern: ${error.message}` };
+    }
+
+    const timeline = buildTimeline(terminals, { range, pattern: matcher, redact: this.redactLine, limit });
+    const labels = timelineLabels(terminals);
+
+    return {
+      success: true,
+      count: timeline.entries.length,
+      truncated: timeline.truncated,
+      terminals: terminals.map(t => ({ id: t.id, name: t.name, label: labels.get(t.id) })),
+      ...(range && { range: MCPServer.formatRange(range) }),
+      output: formatTimeline(timeline, labels, timestamp => new Date(timestamp).toISOString()).join('\n'),
+    };
+  }
+
+  private async waitForOutput(args: any): Promise<any> {
+    const { terminal_name, pattern, timeout_ms = 30000, case_sensitive = false, context_lines = 5 } = args;
+
+    if (!terminal_name || !pattern) {
+      return {
+        success: false,
+        error: 'terminal_name and pattern are required. Use list_terminals to see available terminals.',
+      };
+    }
+
+    let matcher: RegExp;
+    try {
+      matcher = new RegExp(pattern, case_sensitive ? '' : 'i');
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Invalid pattern: ${error.message}`,
+      };
+    }
+
+    const terminal = this.getTerminal(terminal_name);
+    if (!terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    const result = await this.terminalService.waitForOutput(terminal.id, matcher, {
+      timeoutMs: Math.min(Math.max(0, timeout_ms), MCPServer.MAX_WAIT_MS),
+      contextLines: context_lines,
+      redact: this.redactLine,
+    });
+
+    if (!result) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    const output = [...result.before, ...(result.line !== undefined ? [result.line] : []), ...result.after];
+
+    return {
+      success: true,
+      status: result.status,
+      matched_line: result.line ?? null,
+      output: output.join('\n'),
+      command: result.command ? this.formatCommand(result.command) : null,
+      waited_ms: result.waitedMs,
+    };
+  }
+
+  private async runInTerminal(commandRunner: CommandRunner, args: any): Promise<any> {
+    const { command, terminal_name, new_terminal_name, timeout_ms = 60000 } = args;
+
+    if (!command) {
+      return {
+        success: false,
+        error: 'command is required',
+      };
+    }
+
+    const terminal = terminal_name ? this.getTerminal(terminal_name) : undefined;
+    if (terminal_name && !terminal) {
+      return this.terminalNotFound(terminal_name);
+    }
+
+    const result = await commandRunner.run({
+      command,
+      terminalName: terminal?.id,
+      newTerminalName: new_terminal_name,
+      timeoutMs: Math.min(Math.max(0, timeout_ms), MCPServer.MAX_WAIT_MS),
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      terminal_id: result.terminalId,
+      terminal: result.terminal,
+      status: result.status,
+      exit_code: result.exitCode ?? null,
+      output: (result.output || []).join('\n'),
+      duration_ms: result.durationMs,
+    };
+  }
+
+  private listTasks(args: any): any {
+    const { limit = 20 } = args || {};
+    const runs = this.terminalService.getTaskRuns(limit, this.isExposed);
+
+    return {
+      success: true,
+      count: runs.length,
+      tasks: runs.map(run => this.formatTaskRun(run)),
+    };
+  }
+
+  private getTaskOutput(args: any): any {
+    const { task_name, lines = 100 } = args || {};
+
+    if (!task_name) {
+      return {
+        success: false,
+        error: 'task_name is required. Use list_tasks to see available tasks.',
+      };
+    }
+
+    const run = this.terminalService.getTaskRun(task_name, this.isExposed);
+    if (!run) {
+      return {
+        success: false,
+        error: `Task "${task_name}" not found`,
+        available_tasks: [...new Set(this.terminalService.getTaskRuns(undefined, this.isExposed).map(r => r.name))],
+      };
+    }
+
+    const output = this.terminalService.getTaskOutput(run, lines);
+
+    return {
+      success: true,
+      task: this.formatTaskRun(run),
+      output: output.join('\n'),
+      lines_returned: output.length,
+      problems: run.problems,
+    };
+  }
+
+  private getDebugOutput(debugOutput: DebugOutputService, args: any): any {
+    const { session_name, lines = 100, categories } = args || {};
+    const sessions = debugOutput.getSessions().map(s => ({
+      id: s.id,
+      name: s.name,
+      type: s.type,
+      status: s.endedAt ? 'ended' : 'running',
+      startedAt: s.startedAt.toISOString(),
+      endedAt: s.endedAt?.toISOString(),
+    }));
+
+    const session = debugOutput.getSession(session_name);
+    if (!session) {
+      return {
+        success: false,
+        error: session_name ? `Debug session "${session_name}" not found` : 'No debug sessions recorded',
+        sessions,
+      };
+    }
+
+    const output = debugOutput.getOutput(session, lines, categories);
+
+    return {
+      success: true,
+      session: sessions.find(s => s.id === session.id),
+      output: output.map(l => (l.category === 'stderr' ? `[stderr] ${l.text}` : l.text)).join('\n'),
+      lines_returned: output.length,
+      lines_dropped: session.droppedLines,
+      sessions,
+    };
+  }
+
+  private formatTaskRun(run: TaskRun): any {
+    let status: string;
+    if (!run.endedAt) {
+      status = 'running';
+    } else if (run.exitCode === undefined) {
+      status = 'finished';
+    } else {
+      status = run.exitCode === 0 ? 'succeeded' : 'failed';
+    }
+
+    return {
+      id: run.id,
+      name: run.name,
+      source: run.source,
+      type: run.type,
+      status,
+      exitCode: run.exitCode,
+      terminal_id: run.terminalId ?? null,
+      startedAt: run.startedAt.toISOString(),
+      endedAt: run.endedAt?.toISOString(),
+      durationMs: run.endedAt ? run.endedAt.getTime() - run.startedAt.getTime() : undefined,
+      problemMatchers: run.problemMatchers,
+      problems: {
+        errors: run.problems.filter(p => p.severity === 'error').length,
+        warnings: run.problems.filter(p => p.severity === 'warning').length,
+      },
+    };
+  }
+
+  private formatFailure(failure: FailureRecord, tailLines: number): any {
+    const output = failure.output.slice(-tailLines);
+
+    return {
+      terminal_id: failure.terminalId,
+      terminal: failure.terminalName,
+      command: failure.commandLine ?? null,
+      exitCode: failure.exitCode,
+      startedAt: failure.startedAt.toISOString(),
+      endedAt: failure.endedAt.toISOString(),
+      durationMs: failure.endedAt.getTime() - failure.startedAt.getTime(),
+      output_tail: output.join('\n'),
+      output_lines: failure.output.length,
+    };
+  }
+
+  private formatCommand(command: CommandRecord): any {
+    let status: string;
+    if (!command.endedAt) {
+      status = 'running';
+    } else if (command.exitCode === undefined) {
+      status = 'unknown';
+    } else {
+      status = command.exitCode === 0 ? 'succeeded' : 'failed';
+    }
+
+    return {
+      id: command.id,
+      command: command.commandLine,
+      cwd: command.cwd,
+      status,
+      exitCode: command.exitCode,
+      startedAt: command.startedAt.toISOString(),
+      endedAt: command.endedAt?.toISOString(),
+      durationMs: command.endedAt ? command.endedAt.getTime() - command.startedAt.getTime() : undefined,
+      outputLines: command.output.length,
+    };
+  }
+
+  /**
+   * Tools and resources look terminals up through these helpers, so terminals
+   * hidden by the access policy are treated as if they did not exist
+   */
+  private readonly isExposed: TerminalFilter = (terminalId, terminalName) => {
+    const terminal = this.terminalService.getTerminalById(terminalId);
+    const facts = terminal ? AccessPolicy.factsOf(terminal) : { id: terminalId, name: terminalName };
+    return this.accessPolicy.isExposed(facts);
+  };
+
+  /**
+   * Judged by the facts recorded when the command failed, and by the terminal
+   * as it is now while it is still kept. Without recorded facts there is
+   * nothing to match deny rules against, so the failure stays hidden.
+   */
+  private readonly isFailureExposed: FailureFilter = failure => {
+    if (!failure.access || !this.accessPolicy.isExposed(failure.access)) {
+      return false;
+    }
+    return !this.terminalService.getTerminalById(failure.terminalId) || this.isExposed(failure.terminalId, failure.terminalName);
+  };
+
+  // Client patterns only ever see redacted text. Matching the original would
+  // tell the client whether a guess at a secret was right.
+  private readonly redactLine = (line: string): string => this.redactor.redact(line);
+
+  /** Hidden terminals take no part in the lookup, so they can neither match nor make a name ambiguous */
+  private getTerminal(nameOrId: string): TerminalData | undefined {
+    const resolution = this.terminalService.resolveTerminal(nameOrId, this.isExposed);
+
+    if (resolution.status === 'ambiguous') {
+      throw new AmbiguousTerminalError(nameOrId, resolution.candidates);
+    }
+    return resolution.status === 'found' ? resolution.terminal : undefined;
+  }
+
+  /** Resource URIs carry the terminal id, so they are never resolved by name */
+  private getResourceTerminal(terminalId: string): TerminalData | undefined {
+    const terminal = this.terminalService.getTerminalById(terminalId);
+    return terminal && this.isExposed(terminal.id, terminal.name) ? terminal : undefined;
+  }
+
+  private getExposedTerminals(includeClosed: boolean = false): TerminalData[] {
+    return this.terminalService.getAllTerminals(includeClosed).filter(t => this.isExposed(t.id, t.name));
+  }
+
+  private terminalNotFound(terminalName: string): any {
+    const available = this.getExposedTerminals();
+    return {
+      success: false,
+      error: `Terminal "${terminalName}" not found`,
+      available_terminals: available.map(t => t.name || t.id),
     };
   }
 
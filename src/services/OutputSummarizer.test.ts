@@ -0,0 +1,61 @@
+import { summarizeOutput } from './OutputSummarizer';
+
+describe('summarizeOutput', () => {
+  const numbered = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${'-'.repeat(i % 3)}${i}`);
+
+  it('should return output within budget unchanged', () => {
+    const lines = ['one', 'two', 'three'];
+
+    expect(summarizeOutput(lines, { maxChars: 100 })).toEqual({ lines, summary: undefined });
+    expect(summarizeOutput(lines, {})).toEqual({ lines, summary: undefined });
+  });
+
+  it('should collapse runs of lines that differ only in numbers and hashes', () => {
+    const lines = [
+      'Downloading 1%',
+      'Downloading 2%',
+      'Downloading 3.5%',
+      'commit 3f9a1c2e',
+      'commit 7b21e0c4',
+      'Done',
+    ];
+
+    const result = summarizeOutput(lines, { collapse: true });
+
+    expect(result.lines).toEqual(['Downloading 1%', '[... 2 similar lines ...]', 'commit 3f9a1c2e', 'commit 7b21e0c4', 'Done']);
+    expect(result.summary).toMatchObject({ originalLines: 6, collapsedLines: 2, omittedLines: 0 });
+  });
+
+  it('should keep the head, tail and error lines of output over budget', () => {
+    const lines = [...numbered(50, 'build'), 'src/a.ts(1,2): error TS1005: ";" expected.', ...numbered(50, 'emit')];
+
+    const result = summarizeOutput(lines, { maxChars: 400 });
+
+    expect(result.lines[0]).toBe('build 0');
+    expect(result.lines[result.lines.length - 1]).toBe('emit -49');
+    expect(result.lines).toContain('src/a.ts(1,2): error TS1005: ";" expected.');
+    expect(result.lines.filter(l => /^\[\.\.\. \d+ lines omitted \.\.\.\]$/.test(l))).toHaveLength(2);
+    expect(result.summary!.returnedChars).toBeLessThanOrEqual(400);
+    expect(result.summary).toMatchObject({ originalLines: 101, keptErrorLines: 1 });
+    expect(result.summary!.omittedLines + result.lines.length - 2).toBe(101);
+  });
+
+  it('should stay within budget when many error lines are interleaved', () => {
+    const lines = numbered(2000).map((line, i) => (i % 7 === 0 ? `${line} error: build failed` : line));
+
+    for (const maxChars of [500, 1000, 4000]) {
+      const result = summarizeOutput(lines, { maxChars });
+
+      expect(result.lines.join('\n').length).toBeLessThanOrEqual(maxChars);
+      expect(result.summary!.returnedChars).toBeLessThanOrEqual(maxChars);
+      expect(result.summary!.keptErrorLines).toBeGreaterThan(0);
+    }
+  });
+
+  it('should cut lines too long to fit', () => {
+    const result = summarizeOutput(['x'.repeat(1000), 'end'], { maxChars: 200 });
+
+    expect(result.lines[0]).toMatch(/^x{45} \[\.\.\. 955 chars\]$/);
+    expect(result.lines[1]).toBe('end');
+  });
+});
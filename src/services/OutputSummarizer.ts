@@ -0,0 +1,166 @@
+export interface SummarizeOptions {
+  /** Output over this many characters has its middle elided. Unlimited when undefined. */
+  maxChars?: number;
+  /** Collapse runs of repeated or near-identical lines even when within budget */
+  collapse?: boolean;
+}
+
+export interface SummaryReport {
+  originalLines: number;
+  originalChars: number;
+  returnedChars: number;
+  /** Lines folded into "similar lines" markers */
+  collapsedLines: number;
+  /** Lines dropped from the middle to fit the budget */
+  omittedLines: number;
+  /** Lines from the middle kept because they look like errors */
+  keptErrorLines: number;
+}
+
+export interface SummarizedOutput {
+  lines: string[];
+  /** Undefined when the output was returned as is */
+  summary: SummaryReport | undefined;
+}
+
+/** Rough characters per token for the English and code seen in terminals */
+export const CHARS_PER_TOKEN = 4;
+
+// Runs shorter than this are left alone, a marker would not save anything
+const MIN_COLLAPSED_RUN = 3;
+
+// Shares of the budget, the rest is spent on lines that look like errors
+const HEAD_SHARE = 0.25;
+const TAIL_SHARE = 0.45;
+
+// Held back when sizing the head, tail and long lines, leaving room for the markers
+const MARKER_RESERVE = 0.1;
+
+const ERROR_LINE = /\b(?:errors?|fail(?:ed|ure|ures|ing)?|exception|panic|fatal|traceback|warn(?:ing)?s?|denied|refused|cannot|unable to)\b|\berr!|[✖✕×●]/i;
+
+/** Lines that differ only in numbers, hashes or ids, such as progress updates, share a shape */
+function shapeOf(line: string): string {
+  return line.replace(/0x[0-9a-f]+|[0-9a-f]{7,}|\d+(?:\.\d+)*/gi, '#');
+}
+
+function charsOf(lines: string[]): number {
+  return lines.reduce((sum, line) => sum + line.length + 1, 0);
+}
+
+/** Keeps the first line of every run of at least MIN_COLLAPSED_RUN lines of the same shape */
+function collapseRuns(lines: string[]): { lines: string[]; collapsed: number } {
+  const result: string[] = [];
+  let collapsed = 0;
+
+  for (let start = 0; start < lines.length;) {
+    const shape = shapeOf(lines[start]);
+    let end = start + 1;
+    while (end < lines.length && shapeOf(lines[end]) === shape) {
+      end++;
+    }
+
+    const run = end - start;
+    if (run >= MIN_COLLAPSED_RUN) {
+      result.push(lines[start], `[... ${run - 1} similar lines ...]`);
+      collapsed += run - 1;
+    } else {
+      result.push(...lines.slice(start, end));
+    }
+    start = end;
+  }
+
+  return { lines: result, collapsed };
+}
+
+/**
+ * Shrinks terminal output for a model's context. Repeated lines are folded
+ * into a count, and when the output is still over budget its head and tail
+ * are kept along with whatever in between looks like an error. Every elided
+ * stretch is replaced by a marker saying how much was left out.
+ */
+export function summarizeOutput(lines: string[], options: SummarizeOptions): SummarizedOutput {
+  const { maxChars, collapse = false } = options;
+  const originalChars = charsOf(lines);
+
+  if (!collapse && (maxChars === undefined || originalChars <= maxChars)) {
+    return { lines, summary: undefined };
+  }
+
+  const collapsedRuns = collapseRuns(lines);
+  let result = collapsedRuns.lines;
+  let omitted = 0;
+  let keptErrors = 0;
+
+  if (maxChars !== undefined && charsOf(result) > maxChars) {
+    const budget = maxChars * (1 - MARKER_RESERVE);
+    // A single huge line, such as minified JSON, must not take the whole budget
+    const maxLineChars = Math.max(1, Math.floor(budget * HEAD_SHARE));
+    const entries = result.map(line =>
+      line.length > maxLineChars ? `${line.slice(0, maxLineChars)} [... ${line.length - maxLineChars} chars]` : line
+    );
+    const keep = new Array<boolean>(entries.length).fill(false);
+
+    // Markers are charged as they appear, at the length of the longest one
+    // possible. Something is always elided here, so one is paid up front and
+    // another each time a kept line splits an elided stretch in two.
+    const markerCost = `[... ${entries.length} lines omitted ...]`.length + 1;
+    const splitsGap = (index: number) =>
+      index > 0 && index < entries.length - 1 && !keep[index - 1] && !keep[index + 1];
+
+    let used = markerCost;
+    const take = (index: number, limit: number): boolean => {
+      const cost = entries[index].length + 1 + (splitsGap(index) ? markerCost : 0);
+      if (keep[index] || used + cost > limit) {
+        return false;
+      }
+      keep[index] = true;
+      used += cost;
+      return true;
+    };
+
+    const headLimit = used + budget * HEAD_SHARE;
+    let head = 0;
+    while (head < entries.length && take(head, headLimit)) {
+      head++;
+    }
+    const tailLimit = used + budget * TAIL_SHARE;
+    let tail = entries.length - 1;
+    while (tail >= 0 && take(tail, tailLimit)) {
+      tail--;
+    }
+    for (let i = 0; i < entries.length; i++) {
+      if (!keep[i] && ERROR_LINE.test(entries[i]) && take(i, maxChars)) {
+        keptErrors++;
+      }
+    }
+
+    result = [];
+    for (let i = 0; i < entries.length;) {
+      if (keep[i]) {
+        result.push(entries[i++]);
+        continue;
+      }
+
+      let end = i;
+      while (end < entries.length && !keep[end]) {
+        end++;
+      }
+      const dropped = end - i;
+      omitted += dropped;
+      result.push(`[... ${dropped} line${dropped === 1 ? '' : 's'} omitted ...]`);
+      i = end;
+    }
+  }
+
+  return {
+    lines: result,
+    summary: {
+      originalLines: lines.length,
+      originalChars,
+      returnedChars: charsOf(result),
+      collapsedLines: collapsedRuns.collapsed,
+      omittedLines: omitted,
+      keptErrorLines: keptErrors,
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProblemsPublisher } from './ProblemsPublisher';
+import { TerminalBufferService } from './TerminalBufferService';
+import { DiagnosticCollection, MockExtensionContext, MockTerminal } from '../__mocks__/vscode';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const vscodeMock = vscode as any;
+const mockTerminals = vscode.window.terminals as MockTerminal[];
+const mockOnDidOpenTerminal = vscodeMock.window._mockOnDidOpenTerminal;
+const mockOnDidWriteTerminalData = vscodeMock.window._mockOnDidWriteTerminalData;
+const mockOnDidStartTerminalShellExecution = vscodeMock.window._mockOnDidStartTerminalShellExecution;
+const mockOnDidEndTerminalShellExecution = vscodeMock.window._mockOnDidEndTerminalShellExecution;
+const diagnosticCollections: DiagnosticCollection[] = vscodeMock.languages._mockDiagnosticCollections;
+
+describe('ProblemsPublisher', () => {
+  let terminalService: TerminalBufferService;
+  let publisher: ProblemsPublisher;
+  let collection: DiagnosticCollection;
+  let terminal: MockTerminal;
+
+  function run(commandLine: string, output: string, exitCode: number) {
+    const execution = {
+      commandLine: { value: commandLine, isTrusted: true, confidence: 2 },
+      cwd: vscode.Uri.file('/project'),
+      read: async function* () {},
+    };
+    mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+    mockOnDidWriteTerminalData.fire({ terminal, data: output });
+    mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode });
+  }
+
+  function published() {
+    const entries: [string, number, string, string | undefined][] = [];
+    collection.forEach((uri, diagnostics) => {
+      for (const d of diagnostics) {
+        entries.push([uri.fsPath, d.range.start.line, d.message, d.source]);
+      }
+    });
+    return entries;
+  }
+
+  beforeEach(() => {
+    mockTerminals.length = 0;
+    terminalService = new TerminalBufferService(1000);
+    terminalService.initialize(new MockExtensionContext() as unknown as vscode.ExtensionContext);
+    publisher = new ProblemsPublisher(terminalService);
+    publisher.initialize();
+    collection = diagnosticCollections[diagnosticCollections.length - 1];
+
+    terminal = new MockTerminal('bash', 1234);
+    mockOnDidOpenTerminal.fire(terminal);
+  });
+
+  afterEach(() => {
+    publisher.dispose();
+    terminalService.dispose();
+  });
+
+  it('should publish errors from a finished command at their resolved location', () => {
+    run('npx tsc', "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\n", 2);
+
+    expect(published()).toEqual([
+      [path.resolve('/project', 'src/a.ts'), 2, "Type 'string' is not assignable to type 'number'.", 'tsc (bash)'],
+    ]);
+    expect(collection.get(vscode.Uri.file(path.resolve('/project', 'src/a.ts')))?.[0].code).toBe('TS2322');
+  });
+
+  it('should clear entries when the same command runs again and succeeds', () => {
+    run('npx tsc', 'src/a.ts(3,7): error TS1005: ";" expected.\n', 2);
+    run('npm test', 'Error: boom\n    at main (/project/index.js:4:9)\n', 1);
+    expect(published()).toHaveLength(2);
+
+    run('npx tsc', '', 0);
+
+    expect(published().map(([file]) => file)).toEqual(['/project/index.js']);
+  });
+
+  it('should stop publishing for a terminal that is toggled off', () => {
+    run('npx tsc', 'src/a.ts(3,7): error TS1005: ";" expected.\n', 2);
+    const id = terminalService.getTerminal('bash')!.id;
+
+    publisher.setEnabled(id, false);
+    expect(publisher.isEnabled(id)).toBe(false);
+    expect(published()).toEqual([]);
+
+    publisher.setEnabled(id, true);
+    expect(published()).toHaveLength(1);
+  });
+
+  it('should follow the setting for terminals not toggled by hand', () => {
+    publisher.updateSettings({ enabled: false });
+
+    run('npx tsc', 'src/a.ts(3,7): error TS1005: ";" expected.\n', 2);
+
+    expect(published()).toEqual([]);
+  });
+});
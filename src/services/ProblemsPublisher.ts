@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TerminalDiagnostic } from './ErrorParser';
+import { CommandEndEvent, TerminalBufferService } from './TerminalBufferService';
+
+export interface ProblemsSettings {
+  /** Default for terminals not toggled by hand */
+  enabled: boolean;
+}
+
+/** Diagnostics from the latest run of one command line in one terminal */
+interface CommandProblems {
+  terminalId: string;
+  diagnostics: TerminalDiagnostic[];
+}
+
+/**
+ * Shows errors found in terminal output in the Problems panel. Each finished
+ * command replaces what the previous run of the same command line in the same
+ * terminal reported, so a passing run clears its earlier errors.
+ */
+export class ProblemsPublisher {
+  private collection: vscode.DiagnosticCollection | undefined;
+  private settings: ProblemsSettings;
+  private overrides: Map<string, boolean> = new Map();
+  /** Keyed by terminal id and command line */
+  private problems: Map<string, CommandProblems> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly terminalService: TerminalBufferService,
+    settings: ProblemsSettings = { enabled: true }
+  ) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: ProblemsSettings): void {
+    this.settings = settings;
+    this.publish();
+  }
+
+  public initialize(): void {
+    this.collection = vscode.languages.createDiagnosticCollection('terminal-hook');
+
+    this.disposables.push(
+      this.terminalService.onDidEndCommand(event => {
+        this.handleCommandEnd(event);
+      })
+    );
+
+    // Closed terminals keep their problems until they are dropped from history
+    this.disposables.push(
+      this.terminalService.onDidChangeTerminals(() => {
+        const before = this.problems.size;
+        for (const [key, entry] of this.problems) {
+          if (!this.terminalService.getTerminalById(entry.terminalId)) {
+            this.problems.delete(key);
+          }
+        }
+        if (this.problems.size !== before) {
+          this.publish();
+        }
+      })
+    );
+  }
+
+  public isEnabled(terminalId: string): boolean {
+    return this.overrides.get(terminalId) ?? this.settings.enabled;
+  }
+
+  /** Overrides the setting for one terminal for the rest of the session */
+  public setEnabled(terminalId: string, enabled: boolean): void {
+    this.overrides.set(terminalId, enabled);
+    this.publish();
+  }
+
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.problems.clear();
+    this.collection?.dispose();
+    this.collection = undefined;
+  }
+
+  private handleCommandEnd({ terminalId, command }: CommandEndEvent): void {
+    const key = `${terminalId}\0${command.commandLine}`;
+    const diagnostics = this.terminalService.getTerminalErrors(terminalId, { commandId: command.id }) ?? [];
+
+    if (diagnostics.length > 0) {
+      this.problems.set(key, { terminalId, diagnostics });
+    } else if (!this.problems.delete(key)) {
+      return;
+    }
+    this.publish();
+  }
+
+  /** Rebuilds the collection, leaving out terminals with publishing turned off */
+  private publish(): void {
+    if (!this.collection) {
+      return;
+    }
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const { terminalId, diagnostics } of this.problems.values()) {
+      if (!this.isEnabled(terminalId)) {
+        continue;
+      }
+
+      const terminal = this.terminalService.getTerminalById(terminalId);
+      for (const diagnostic of diagnostics) {
+        const file = this.resolveFile(diagnostic.file, terminal?.workspaceFolder);
+        if (!file) {
+          continue;
+        }
+
+        const entries = byFile.get(file) ?? [];
+        entries.push(ProblemsPublisher.toDiagnostic(diagnostic, terminal?.name));
+        byFile.set(file, entries);
+      }
+    }
+
+    this.collection.clear();
+    for (const [file, diagnostics] of byFile) {
+      this.collection.set(vscode.Uri.file(file), diagnostics);
+    }
+  }
+
+  /**
+   * Paths the parser could not resolve because the command's directory was not
+   * known are tried against the workspace. Placeholders like `<stdin>` are dropped.
+   */
+  private resolveFile(file: string | undefined, workspaceFolder: string | undefined): string | undefined {
+    if (!file || file.startsWith('<')) {
+      return undefined;
+    }
+    if (path.isAbsolute(file)) {
+      return file;
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const root = workspaceFolder ?? (folders.length === 1 ? folders[0].uri.fsPath : undefined);
+    return root ? path.resolve(root, file) : undefined;
+  }
+
+  private static toDiagnostic(diagnostic: TerminalDiagnostic, terminalName: string | undefined): vscode.Diagnostic {
+    // Empty ranges are widened to the word at that position by the editor
+    const line = Math.max(0, (diagnostic.line ?? 1) - 1);
+    const character = Math.max(0, (diagnostic.column ?? 1) - 1);
+    const result = new vscode.Diagnostic(
+      new vscode.Range(line, character, line, character),
+      diagnostic.message,
+      diagnostic.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+    );
+
+    result.source = terminalName ? `${diagnostic.source} (${terminalName})` : diagnostic.source;
+    if (diagnostic.code) {
+      result.code = diagnostic.code;
+    }
+    return result;
+  }
+}
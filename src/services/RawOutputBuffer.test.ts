@@ -0,0 +1,64 @@
+import { RawOutputBuffer } from './RawOutputBuffer';
+
+describe('RawOutputBuffer', () => {
+  it('should keep output exactly as written', () => {
+    const buffer = new RawOutputBuffer(100);
+    buffer.append('\x1b[32mok\x1b[0m\r\n');
+    buffer.append('50%\r100%\n');
+
+    expect(buffer.toString()).toBe('\x1b[32mok\x1b[0m\r\n50%\r100%\n');
+    expect(buffer.length).toBe(22);
+  });
+
+  it('should return the last lines', () => {
+    const buffer = new RawOutputBuffer(100);
+    buffer.append('one\ntwo\nthree\n');
+
+    expect(buffer.tail(2)).toBe('two\nthree\n');
+    expect(buffer.tail(10)).toBe('one\ntwo\nthree\n');
+    expect(buffer.tail(0)).toBe('');
+
+    buffer.append('partial');
+    expect(buffer.tail(1)).toBe('partial');
+  });
+
+  it('should trim whole lines from the front when over capacity', () => {
+    const buffer = new RawOutputBuffer(20);
+    for (let i = 0; i < 10; i++) {
+      buffer.append(`\x1b[1mline ${i}\x1b[0m\n`);
+    }
+
+    const text = buffer.toString();
+    expect(text.length).toBeLessThanOrEqual(25);
+    expect(text.startsWith('\x1b[1m')).toBe(true);
+    expect(text.endsWith('line 9\x1b[0m\n')).toBe(true);
+  });
+
+  it('should drop the oldest output at a line boundary', () => {
+    const buffer = new RawOutputBuffer(100);
+    buffer.append('first\nsecond\nthird\n');
+
+    buffer.dropOldest(3);
+    expect(buffer.toString()).toBe('second\nthird\n');
+  });
+
+  it('should ignore output when capacity is 0', () => {
+    const buffer = new RawOutputBuffer(0);
+    buffer.append('data\n');
+
+    expect(buffer.length).toBe(0);
+    expect(buffer.toString()).toBe('');
+  });
+
+  it('should clear and resize', () => {
+    const buffer = new RawOutputBuffer(100);
+    buffer.append('a\nb\nc\n');
+
+    buffer.resize(4);
+    expect(buffer.toString()).toBe('c\n');
+
+    buffer.clear();
+    expect(buffer.length).toBe(0);
+    expect(buffer.toString()).toBe('');
+  });
+});
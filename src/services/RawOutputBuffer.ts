@@ -0,0 +1,86 @@
+/**
+ * Bounded copy of a terminal's output exactly as written, escape sequences
+ * and carriage returns included. Trimming drops whole lines from the front so
+ * the retained text never starts in the middle of an escape sequence.
+ */
+export class RawOutputBuffer {
+  private chunks: string[] = [];
+  private size = 0;
+
+  constructor(private maxChars: number) {}
+
+  public get length(): number {
+    return this.size;
+  }
+
+  public get capacity(): number {
+    return this.maxChars;
+  }
+
+  public append(data: string): void {
+    if (!data || this.maxChars <= 0) {
+      return;
+    }
+
+    this.chunks.push(data);
+    this.size += data.length;
+
+    // Trimming copies the whole buffer, so allow some slack before doing it
+    if (this.size > this.maxChars + this.maxChars / 4) {
+      this.trimTo(this.maxChars);
+    }
+  }
+
+  public toString(): string {
+    if (this.chunks.length > 1) {
+      this.chunks = [this.chunks.join('')];
+    }
+    return this.chunks[0] ?? '';
+  }
+
+  /** Last `lines` lines of the raw text, line endings included */
+  public tail(lines: number): string {
+    const text = this.toString();
+    if (lines <= 0) {
+      return '';
+    }
+
+    let index = text.endsWith('\n') ? text.length - 1 : text.length;
+    for (let i = 0; i < lines && index > 0; i++) {
+      index = text.lastIndexOf('\n', index - 1);
+    }
+
+    return index >= 0 ? text.slice(index + 1) : text;
+  }
+
+  /** Drops at least `chars` characters from the front, up to the next line boundary */
+  public dropOldest(chars: number): void {
+    if (chars <= 0 || this.size === 0) {
+      return;
+    }
+    this.trimTo(Math.max(0, this.size - chars));
+  }
+
+  public clear(): void {
+    this.chunks = [];
+    this.size = 0;
+  }
+
+  public resize(maxChars: number): void {
+    this.maxChars = maxChars;
+    if (this.size > maxChars) {
+      this.trimTo(this.maxChars);
+    }
+  }
+
+  private trimTo(maxChars: number): void {
+    let text = maxChars > 0 ? this.chunks.join('').slice(-maxChars) : '';
+    const firstNewline = text.indexOf('\n');
+    if (firstNewline !== -1) {
+      text = text.slice(firstNewline + 1);
+    }
+
+    this.chunks = text ? [text] : [];
+    this.size = text.length;
+  }
+}
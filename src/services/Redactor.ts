@@ -0,0 +1,156 @@
+export interface RedactionSettings {
+  enabled: boolean;
+  /** User-defined patterns, replaced in full and reported as `custom` */
+  customPatterns: RegExp[];
+}
+
+/** Number of redactions made, per detector */
+export type RedactionCounts = Record<string, number>;
+
+export interface RedactionReport {
+  total: number;
+  by_type: RedactionCounts;
+}
+
+interface Detector {
+  type: string;
+  pattern: RegExp;
+  /** Capture group holding the secret. The rest of the match is kept */
+  group?: number;
+}
+
+// Random base64 of this length scores around 4.6 bits per character, while
+// long identifiers and words stay near 4.1
+const MIN_ENTROPY_LENGTH = 32;
+const MIN_ENTROPY_BITS = 4.4;
+
+const DETECTORS: Detector[] = [
+  {
+    type: 'private_key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { type: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    type: 'aws_secret_key',
+    pattern: /(aws_secret_access_key\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})/gi,
+    group: 2,
+  },
+  { type: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})/g },
+  { type: 'bearer_token', pattern: /(\bBearer\s+)([A-Za-z0-9._~+/-]{8,}=*)/g, group: 2 },
+  {
+    // `password=...`, `API_KEY: ...` and the like, as in .env files and shell exports
+    type: 'password',
+    pattern: /(\b[\w.-]*(?:password|passwd|secret|token|api[_-]?key)[\w.-]*[ \t]*[=:][ \t]*["']?)((?!\[REDACTED)[^\s"'`]+)/gi,
+    group: 2,
+  },
+];
+
+// No `/`, so file paths are not mistaken for one long token
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+_=-]{32,}/g;
+
+/**
+ * Scrubs secrets from terminal output before it is handed to an MCP client.
+ * Secrets are replaced with `[REDACTED:<type>]` and counted per type.
+ */
+export class Redactor {
+  private settings: RedactionSettings;
+
+  constructor(settings: RedactionSettings = { enabled: true, customPatterns: [] }) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: RedactionSettings): void {
+    this.settings = settings;
+  }
+
+  public redact(text: string, counts: RedactionCounts = {}): string {
+    if (!this.settings.enabled || !text) {
+      return text;
+    }
+
+    for (const pattern of this.settings.customPatterns) {
+      text = Redactor.replace(text, { type: 'custom', pattern: Redactor.global(pattern) }, counts);
+    }
+
+    for (const detector of DETECTORS) {
+      text = Redactor.replace(text, detector, counts);
+    }
+
+    return text.replace(ENTROPY_CANDIDATE, candidate => {
+      if (!Redactor.looksRandom(candidate)) {
+        return candidate;
+      }
+      counts.high_entropy = (counts.high_entropy ?? 0) + 1;
+      return '[REDACTED:high_entropy]';
+    });
+  }
+
+  /** Redacts every string in a JSON-like value, leaving the original untouched */
+  public redactValue<T>(value: T, counts: RedactionCounts = {}): T {
+    if (typeof value === 'string') {
+      return this.redact(value, counts) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, counts)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.redactValue(item, counts);
+      }
+      return copy as T;
+    }
+    return value;
+  }
+
+  public static report(counts: RedactionCounts): RedactionReport | undefined {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return total > 0 ? { total, by_type: counts } : undefined;
+  }
+
+  private static replace(text: string, detector: Detector, counts: RedactionCounts): string {
+    const { type, pattern, group } = detector;
+
+    return text.replace(pattern, (match, ...groups) => {
+      if (match.length === 0) {
+        return match;
+      }
+      counts[type] = (counts[type] ?? 0) + 1;
+
+      if (group === undefined) {
+        return `[REDACTED:${type}]`;
+      }
+      const secret: string = groups[group - 1];
+      const start = match.lastIndexOf(secret);
+      return match.slice(0, start) + `[REDACTED:${type}]` + match.slice(start + secret.length);
+    });
+  }
+
+  private static global(pattern: RegExp): RegExp {
+    return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+  }
+
+  /**
+   * Mixed-case letters plus digits with high Shannon entropy. Hex digests
+   * such as commit hashes are single-case and are left alone.
+   */
+  private static looksRandom(candidate: string): boolean {
+    if (candidate.length < MIN_ENTROPY_LENGTH || !/[a-z]/.test(candidate) || !/[A-Z]/.test(candidate) || !/\d/.test(candidate)) {
+      return false;
+    }
+
+    const frequencies = new Map<string, number>();
+    for (const char of candidate) {
+      frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of frequencies.values()) {
+      const p = count / candidate.length;
+      entropy -= p * Math.log2(p);
+    }
+
+    return entropy >= MIN_ENTROPY_BITS;
+  }
+}
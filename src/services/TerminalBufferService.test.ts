@@ -1,6 +1,11 @@
 import { TerminalBufferService } from './TerminalBufferService';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { MockTerminal, MockExtensionContext } from '../__mocks__/vscode';
+import { Redactor } from './Redactor';
+import type { FailureRecord } from './TerminalBufferService';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const vscodeMock = vscode as any;
@@ -9,6 +14,19 @@ const mockTerminals = vscode.window.terminals as MockTerminal[];
 const mockOnDidOpenTerminal = vscodeMock.window._mockOnDidOpenTerminal;
 const mockOnDidCloseTerminal = vscodeMock.window._mockOnDidCloseTerminal;
 const mockOnDidWriteTerminalData = vscodeMock.window._mockOnDidWriteTerminalData;
+const mockOnDidStartTerminalShellExecution = vscodeMock.window._mockOnDidStartTerminalShellExecution;
+const mockOnDidEndTerminalShellExecution = vscodeMock.window._mockOnDidEndTerminalShellExecution;
+const mockOnDidChangeTerminalDimensions = vscodeMock.window._mockOnDidChangeTerminalDimensions;
+const mockOnDidChangeTerminalState = vscodeMock.window._mockOnDidChangeTerminalState;
+const mockWorkspaceFolders = vscodeMock.workspace._mockWorkspaceFolders;
+
+function createExecution(commandLine: string, cwd?: string) {
+  return {
+    commandLine: { value: commandLine, isTrusted: true, confidence: 2 },
+    cwd: cwd ? vscode.Uri.file(cwd) : undefined,
+    read: async function* () {},
+  };
+}
 
 describe('TerminalBufferService', () => {
   let service: TerminalBufferService;
@@ -70,6 +88,17 @@ describe('TerminalBufferService', () => {
       expect(service.getAllTerminals().length).toBe(0);
     });
 
+    it('should fire a change event when terminals open and close', () => {
+      const listener = jest.fn();
+      service.onDidChangeTerminals(listener);
+
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidCloseTerminal.fire(terminal);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
     it('should not register the same terminal twice', () => {
       const terminal = new MockTerminal('bash', 1234);
       
@@ -81,6 +110,164 @@ describe('TerminalBufferService', () => {
     });
   });
 
+  describe('terminal identity', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    afterEach(() => {
+      mockWorkspaceFolders.length = 0;
+      vscodeMock.tasks.taskExecutions = [];
+    });
+
+    it('should give terminals with the same name different ids that leave the name out', () => {
+      mockOnDidOpenTerminal.fire(new MockTerminal('zsh', 1234));
+      mockOnDidOpenTerminal.fire(new MockTerminal('zsh', 5678));
+
+      const [first, second] = service.getAllTerminals();
+      expect(first.id).not.toBe(second.id);
+      expect(first.id).not.toContain('zsh');
+    });
+
+    it('should keep the id when a terminal is renamed', () => {
+      const listener = jest.fn();
+      const terminal = new MockTerminal('zsh', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      const { id } = service.getAllTerminals()[0];
+      service.onDidChangeTerminals(listener);
+
+      terminal.name = 'npm run dev';
+      mockOnDidChangeTerminalState.fire(terminal);
+
+      expect(service.getTerminal('npm run dev')?.id).toBe(id);
+      expect(service.getTerminal('zsh')).toBeUndefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notice a rename when output arrives', () => {
+      const terminal = new MockTerminal('zsh', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      terminal.name = 'vim';
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'hello\n' });
+
+      expect(service.getAllTerminals()[0].name).toBe('vim');
+    });
+
+    it('should record how the terminal was created', () => {
+      mockWorkspaceFolders.push({ uri: vscode.Uri.file('/work/api'), name: 'api', index: 0 });
+      const terminal = new MockTerminal('server', 1234, {
+        shellPath: '/bin/bash',
+        shellArgs: ['-l'],
+        cwd: '/work/api/src',
+        env: { API_TOKEN: 'secret' },
+      });
+      terminal.state = { isInteractedWith: false, shell: 'bash' };
+
+      mockOnDidOpenTerminal.fire(terminal);
+
+      expect(service.getAllTerminals()[0]).toMatchObject({
+        shellPath: '/bin/bash',
+        shellType: 'bash',
+        cwd: '/work/api/src',
+        workspaceFolder: '/work/api',
+        isTask: false,
+        creationOptions: { shellArgs: ['-l'], envVariables: ['API_TOKEN'] },
+      });
+      expect(JSON.stringify(service.getAllTerminals()[0].creationOptions)).not.toContain('secret');
+    });
+
+    it('should follow the working directory of commands', () => {
+      mockWorkspaceFolders.push({ uri: vscode.Uri.file('/work/web'), name: 'web', index: 0 });
+      const terminal = new MockTerminal('zsh', 1234, { cwd: '/home/me' });
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: createExecution('npm test', '/work/web') });
+
+      expect(service.getAllTerminals()[0]).toMatchObject({ cwd: '/work/web', workspaceFolder: '/work/web' });
+    });
+
+    it('should mark task terminals', () => {
+      vscodeMock.tasks.taskExecutions = [{ task: { name: 'build' } }];
+
+      mockOnDidOpenTerminal.fire(new MockTerminal('build', 1234));
+      mockOnDidOpenTerminal.fire(new MockTerminal('zsh', 5678));
+
+      expect(service.getAllTerminals().map(t => t.isTask)).toEqual([true, false]);
+    });
+  });
+
+  describe('tasks', () => {
+    const task = { name: 'build', source: 'Workspace', definition: { type: 'shell' }, problemMatchers: ['$tsc'] };
+    const execution = { task };
+
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    afterEach(() => {
+      vscodeMock.languages._mockDiagnostics.clear();
+    });
+
+    it('should link a task run to the terminal it opens and keep only its output', () => {
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution });
+      const terminal = new MockTerminal('Task - build', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'tsc -p .\nsrc/a.ts(1,5): error TS2322\n' });
+
+      const file = vscode.Uri.file('/work/src/a.ts');
+      vscodeMock.languages._mockDiagnostics.set(file.toString(), [
+        { range: { start: { line: 0, character: 4 } }, message: 'TS2322', severity: 0, source: 'ts' },
+      ]);
+      vscodeMock.languages._mockOnDidChangeDiagnostics.fire({ uris: [file] });
+      vscodeMock.tasks._mockOnDidEndTaskProcess.fire({ execution, exitCode: 2 });
+      vscodeMock.tasks._mockOnDidEndTask.fire({ execution });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Terminal will be reused by tasks\n' });
+
+      const [run] = service.getTaskRuns();
+      const terminalData = service.getTerminal('Task - build')!;
+      expect(run).toMatchObject({ name: 'build', source: 'Workspace', type: 'shell', exitCode: 2, terminalId: terminalData.id });
+      expect(run.problems).toEqual([
+        { file: '/work/src/a.ts', line: 1, column: 5, severity: 'error', message: 'TS2322', source: 'ts' },
+      ]);
+      expect(terminalData.task).toBe(run);
+      expect(terminalData.isTask).toBe(true);
+      expect(service.getTaskOutput(run)).toEqual(['tsc -p .', 'src/a.ts(1,5): error TS2322']);
+    });
+
+    it('should reuse an open task terminal for the next run', () => {
+      const terminal = new MockTerminal('build', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'first run\n' });
+
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'second run\n' });
+
+      const run = service.getTaskRun('BUILD')!;
+      expect(run.endedAt).toBeUndefined();
+      expect(service.getTaskOutput(run)).toEqual(['second run']);
+    });
+
+    it('should find a task by part of its name only when that is unambiguous', () => {
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution });
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution: { task: { ...task, name: 'build:watch' } } });
+
+      expect(service.getTaskRun('watch')?.name).toBe('build:watch');
+      expect(service.getTaskRun('build')?.name).toBe('build');
+      expect(service.getTaskRun('bui')).toBeUndefined();
+      expect(service.getTaskRuns().map(r => r.name)).toEqual(['build:watch', 'build']);
+    });
+
+    it('should pass runs without a terminal through the filter by task name', () => {
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution });
+      vscodeMock.tasks._mockOnDidStartTask.fire({ execution: { task: { ...task, name: 'deploy' } } });
+      const filter = jest.fn((_id: string, name: string) => name !== 'deploy');
+
+      expect(service.getTaskRuns(undefined, filter).map(r => r.name)).toEqual(['build']);
+      expect(filter).toHaveBeenCalledWith('', 'deploy');
+    });
+  });
+
   describe('terminal data capture', () => {
     beforeEach(() => {
       service.initialize(context);
@@ -128,6 +315,24 @@ describe('TerminalBufferService', () => {
       expect(buffer).not.toContain('\x1b[32m');
     });
 
+    it('should fire an event with the captured lines', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const listener = jest.fn();
+      service.onDidCaptureOutput(listener);
+
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'one\ntwo\n' });
+      mockOnDidWriteTerminalData.fire({ terminal, data: '\x1b]633;A\x07' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        terminalId: service.getTerminal('bash')?.id,
+        lines: ['one', 'two'],
+        firstSeq: 0,
+      });
+    });
+
     it('should trim buffer when exceeding max size', () => {
       const smallService = new TerminalBufferService(5); // Small buffer
       smallService.initialize(context);
@@ -148,6 +353,432 @@ describe('TerminalBufferService', () => {
 
       smallService.dispose();
     });
+
+    it('should read new lines since a cursor and report trimmed lines', () => {
+      const smallService = new TerminalBufferService(5);
+      smallService.initialize(context);
+
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Line 0\nLine 1\n' });
+      const first = smallService.readTerminalBuffer('bash', 0);
+      expect(first?.lines.map(l => l.text)).toEqual(['Line 0', 'Line 1']);
+      expect(first?.nextCursor).toBe(2);
+
+      for (let i = 2; i < 10; i++) {
+        mockOnDidWriteTerminalData.fire({ terminal, data: `Line ${i}\n` });
+      }
+
+      const second = smallService.readTerminalBuffer('bash', first!.nextCursor);
+      expect(second?.dropped).toBe(3);
+      expect(second?.lines.map(l => l.text)).toEqual(['Line 5', 'Line 6', 'Line 7', 'Line 8', 'Line 9']);
+      expect(second?.nextCursor).toBe(10);
+
+      expect(smallService.readTerminalBuffer('bash', 10)?.lines).toEqual([]);
+
+      smallService.dispose();
+    });
+  });
+
+  describe('command segmentation', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should record commands from shell execution events', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const execution = createExecution('npm test', '/project');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'FAIL app.test.ts\n' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode: 1 });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'after command\n' });
+
+      const commands = service.getCommands('bash');
+      expect(commands?.length).toBe(1);
+      expect(commands?.[0].commandLine).toBe('npm test');
+      expect(commands?.[0].cwd).toBe('/project');
+      expect(commands?.[0].exitCode).toBe(1);
+      expect(commands?.[0].endedAt).toBeInstanceOf(Date);
+      expect(commands?.[0].output).toEqual(['FAIL app.test.ts']);
+    });
+
+    it('should separate output of consecutive commands', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const first = createExecution('echo one');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: first });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'one\n' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution: first, exitCode: 0 });
+
+      const second = createExecution('echo two');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: second });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'two\n' });
+
+      expect(service.getCommand('bash', 1)?.output).toEqual(['one']);
+      expect(service.getCommand('bash')?.output).toEqual(['two']);
+      expect(service.getCommand('bash')?.endedAt).toBeUndefined();
+    });
+
+    it('should fall back to OSC 633 sequences in the data stream', () => {
+      const terminal = new MockTerminal('zsh', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidWriteTerminalData.fire({
+        terminal,
+        data: '\x1b]633;P;Cwd=/home/user\x07\x1b]633;E;git status\x5cx3b ok\x07\x1b]633;C\x07On branch main\n',
+      });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'nothing to commit\n\x1b]633;D;0\x07' });
+
+      const command = service.getCommand('zsh');
+      expect(command?.commandLine).toBe('git status; ok');
+      expect(command?.cwd).toBe('/home/user');
+      expect(command?.exitCode).toBe(0);
+      expect(command?.output).toEqual(['On branch main', 'nothing to commit']);
+      expect(command?.source).toBe('sequence');
+    });
+
+    it('should fall back to OSC 133 sequences in the data stream', () => {
+      const terminal = new MockTerminal('fish', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidWriteTerminalData.fire({
+        terminal,
+        data: '\x1b]133;C\x1b\\error: boom\n\x1b]133;D;2\x1b\\',
+      });
+
+      const command = service.getCommand('fish');
+      expect(command?.exitCode).toBe(2);
+      expect(command?.output).toEqual(['error: boom']);
+    });
+
+    it('should not duplicate commands reported by both sources', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const execution = createExecution('make');
+      mockOnDidWriteTerminalData.fire({ terminal, data: '\x1b]633;C\x07' });
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'building\n\x1b]633;D;0\x07' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode: 0 });
+
+      const commands = service.getCommands('bash');
+      expect(commands?.length).toBe(1);
+      expect(commands?.[0].commandLine).toBe('make');
+      expect(commands?.[0].source).toBe('shellIntegration');
+    });
+
+    it('should return null commands for non-existent terminal', () => {
+      expect(service.getCommands('nonexistent')).toBeNull();
+      expect(service.getCommand('nonexistent')).toBeUndefined();
+    });
+  });
+
+  describe('error extraction', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should parse each command on its own and name the command', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const build = createExecution('npx tsc', '/project');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: build });
+      mockOnDidWriteTerminalData.fire({ terminal, data: "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\n" });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution: build, exitCode: 2 });
+
+      const run = createExecution('node index.js', '/project');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: run });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Error: boom\n    at main (/project/index.js:4:9)\n' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution: run, exitCode: 1 });
+
+      const errors = service.getTerminalErrors('bash');
+      expect(errors?.map(e => [e.source, e.file, e.line, e.command])).toEqual([
+        ['tsc', path.resolve('/project', 'src/a.ts'), 3, 'npx tsc'],
+        ['node', '/project/index.js', 4, 'node index.js'],
+      ]);
+      expect(service.getTerminalErrors('bash', { commandId: 1 })?.map(e => e.source)).toEqual(['tsc']);
+    });
+
+    it('should parse the buffer when no commands are recorded', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidWriteTerminalData.fire({ terminal, data: '\x1b[31m./main.go:12:5: undefined: loadConfig\x1b[0m\n' });
+
+      const errors = service.getTerminalErrors('bash');
+      expect(errors?.map(e => [e.source, e.file, e.message, e.command])).toEqual([
+        ['go', './main.go', 'undefined: loadConfig', undefined],
+      ]);
+    });
+
+    it('should return null for non-existent terminal', () => {
+      expect(service.getTerminalErrors('nonexistent')).toBeNull();
+    });
+  });
+
+  describe('failure tracking', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should record commands that exit non-zero', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const passing = createExecution('npm run lint');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: passing });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution: passing, exitCode: 0 });
+
+      const failing = createExecution('npm test');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: failing });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Tests: 1 failed\n' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution: failing, exitCode: 1 });
+
+      const failure = service.getLastFailure();
+      expect(failure?.commandLine).toBe('npm test');
+      expect(failure?.exitCode).toBe(1);
+      expect(failure?.terminalName).toBe('bash');
+      expect(failure?.output).toEqual(['Tests: 1 failed']);
+      expect(service.getRecentFailures().length).toBe(1);
+    });
+
+    it('should return failures newest first and filter by terminal', () => {
+      const bash = new MockTerminal('bash', 1234);
+      const zsh = new MockTerminal('zsh', 5678);
+      mockOnDidOpenTerminal.fire(bash);
+      mockOnDidOpenTerminal.fire(zsh);
+
+      for (const [terminal, commandLine] of [[bash, 'make'], [zsh, 'cargo build'], [bash, 'make test']] as const) {
+        const execution = createExecution(commandLine);
+        mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+        mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode: 2 });
+      }
+
+      expect(service.getRecentFailures().map(f => f.commandLine)).toEqual(['make test', 'cargo build', 'make']);
+      expect(service.getRecentFailures(1)[0].commandLine).toBe('make test');
+      expect(service.getRecentFailures(undefined, service.getTerminal('zsh')?.id).map(f => f.commandLine)).toEqual(['cargo build']);
+
+      const zshOnly = (failure: FailureRecord) => failure.access?.name === 'zsh';
+      expect(service.getRecentFailures(5, undefined, zshOnly).map(f => f.commandLine)).toEqual(['cargo build']);
+      expect(service.getLastFailure(zshOnly)?.commandLine).toBe('cargo build');
+    });
+
+    it('should not mix in failures from terminals whose name contains the searched one', () => {
+      const api = new MockTerminal('api', 1234);
+      const worker = new MockTerminal('api-worker', 5678);
+      mockOnDidOpenTerminal.fire(api);
+      mockOnDidOpenTerminal.fire(worker);
+
+      for (const [terminal, commandLine] of [[api, 'npm start'], [worker, 'npm run worker']] as const) {
+        const execution = createExecution(commandLine);
+        mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+        mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode: 1 });
+      }
+
+      const resolution = service.resolveTerminal('api');
+      expect(resolution.status).toBe('found');
+      const id = resolution.status === 'found' ? resolution.terminal.id : undefined;
+      expect(service.getRecentFailures(undefined, id).map(f => f.commandLine)).toEqual(['npm start']);
+    });
+
+    it('should keep failures after the terminal closes', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const execution = createExecution('node server.js');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Error: listen EADDRINUSE\n' });
+
+      terminal.exitStatus = { code: 1, reason: 0 };
+      mockOnDidCloseTerminal.fire(terminal);
+
+      const failure = service.getLastFailure();
+      expect(failure?.commandLine).toBe('node server.js');
+      expect(failure?.output).toEqual(['Error: listen EADDRINUSE']);
+    });
+
+    it('should record a terminal process exiting non-zero', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Segmentation fault\n' });
+
+      terminal.exitStatus = { code: 139, reason: 0 };
+      mockOnDidCloseTerminal.fire(terminal);
+
+      const failure = service.getLastFailure();
+      expect(failure?.commandLine).toBeUndefined();
+      expect(failure?.exitCode).toBe(139);
+      expect(failure?.output).toEqual(['Segmentation fault']);
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should find literal matches with line numbers and timestamps', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'starting\nError: a.b failed\ndone\n' });
+
+      const result = service.search('a.b');
+      expect(result.truncated).toBe(false);
+      expect(result.matches.length).toBe(1);
+      expect(result.matches[0].lineNumber).toBe(2);
+      expect(result.matches[0].line).toBe('Error: a.b failed');
+      expect(result.matches[0].terminalName).toBe('bash');
+      expect(result.matches[0].timestamp).toBeInstanceOf(Date);
+
+      // Literal search must not treat "." as a wildcard
+      expect(service.search('aXb').matches.length).toBe(0);
+    });
+
+    it('should match patterns against redacted lines when asked to', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'API_KEY=abc123\n' });
+      const redactor = new Redactor();
+      const redact = (line: string) => redactor.redact(line);
+
+      expect(service.search('API_KEY=a').matches).toHaveLength(1);
+      expect(service.search('API_KEY=a', { redact }).matches).toHaveLength(0);
+      expect(service.search('API_KEY=[REDACTED', { redact }).matches[0].line).toBe('API_KEY=abc123');
+    });
+
+    it('should only search lines captured within the time range', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      const now = jest.spyOn(Date, 'now');
+
+      now.mockReturnValue(1000);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'error early\n' });
+      now.mockReturnValue(5000);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'error late\n' });
+      now.mockRestore();
+
+      expect(service.search('error', { range: { since: 2000 } }).matches.map(m => m.line)).toEqual(['error late']);
+      expect(service.search('error', { range: { until: 2000 } }).matches.map(m => m.line)).toEqual(['error early']);
+    });
+
+    it('should support regular expressions and case sensitivity', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'ERROR one\nerror two\nwarning\n' });
+
+      expect(service.search('error \\w+', { regex: true }).matches.length).toBe(2);
+      expect(service.search('error', { caseSensitive: true }).matches.map(m => m.line)).toEqual(['error two']);
+      expect(() => service.search('(', { regex: true })).toThrow();
+    });
+
+    it('should include context lines around matches', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'a\nb\nTraceback\nc\nd\n' });
+
+      const [match] = service.search('Traceback', { before: 1, after: 2 }).matches;
+      expect(match.before).toEqual(['b']);
+      expect(match.after).toEqual(['c', 'd']);
+    });
+
+    it('should filter by terminal and cap results', () => {
+      const bash = new MockTerminal('bash', 1234);
+      const zsh = new MockTerminal('zsh', 5678);
+      mockOnDidOpenTerminal.fire(bash);
+      mockOnDidOpenTerminal.fire(zsh);
+      mockOnDidWriteTerminalData.fire({ terminal: bash, data: 'hit 1\nhit 2\n' });
+      mockOnDidWriteTerminalData.fire({ terminal: zsh, data: 'hit 3\n' });
+
+      expect(service.search('hit', { terminal: 'zsh' }).matches.map(m => m.line)).toEqual(['hit 3']);
+
+      const capped = service.search('hit', { maxResults: 2 });
+      expect(capped.matches.length).toBe(2);
+      expect(capped.truncated).toBe(true);
+
+      const filtered = service.search('hit', { maxResults: 2, filter: (_id, name) => name !== 'bash' });
+      expect(filtered.matches.map(m => m.line)).toEqual(['hit 3']);
+      expect(filtered.truncated).toBe(false);
+    });
+  });
+
+  describe('waitForOutput', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should resolve when new output matches the pattern', async () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'ready in 1ms (old)\nstarting\n' });
+
+      const wait = service.waitForOutput('bash', /ready in/, { timeoutMs: 1000, contextLines: 2 });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'compiling\nready in 300ms\nLocal: 5173\n' });
+
+      const result = await wait;
+      expect(result?.status).toBe('matched');
+      expect(result?.line).toBe('ready in 300ms');
+      expect(result?.before).toEqual(['starting', 'compiling']);
+      expect(result?.after).toEqual(['Local: 5173']);
+    });
+
+    it('should report the context of a match even when the same write trimmed the buffer', async () => {
+      service.updateSettings({ maxBufferLines: 3 });
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'old 1\nold 2\n' });
+
+      const wait = service.waitForOutput('bash', /ready in/, { timeoutMs: 1000, contextLines: 3 });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'compiling\nready in 300ms\nLocal: 5173\nNetwork: off\n' });
+
+      const result = await wait;
+      expect(result?.line).toBe('ready in 300ms');
+      expect(result?.before).toEqual(['compiling']);
+    });
+
+    it('should resolve when a command finishes', async () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const execution = createExecution('npm test');
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution });
+
+      const wait = service.waitForOutput('bash', /never/, { timeoutMs: 1000 });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Tests: 3 passed\n' });
+      mockOnDidEndTerminalShellExecution.fire({ terminal, execution, exitCode: 0 });
+
+      const result = await wait;
+      expect(result?.status).toBe('command_finished');
+      expect(result?.command?.commandLine).toBe('npm test');
+      expect(result?.before).toEqual(['Tests: 3 passed']);
+    });
+
+    it('should resolve when the timeout elapses', async () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const result = await service.waitForOutput('bash', /never/, { timeoutMs: 10 });
+      expect(result?.status).toBe('timeout');
+      expect(result?.line).toBeUndefined();
+    });
+
+    it('should resolve when the terminal closes', async () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      const wait = service.waitForOutput('bash', /never/, { timeoutMs: 1000 });
+      mockOnDidCloseTerminal.fire(terminal);
+
+      expect((await wait)?.status).toBe('terminal_closed');
+    });
+
+    it('should return null for non-existent terminal', async () => {
+      expect(await service.waitForOutput('nonexistent', /x/, { timeoutMs: 10 })).toBeNull();
+    });
   });
 
   describe('terminal retrieval', () => {
@@ -180,6 +811,7 @@ describe('TerminalBufferService', () => {
 
       const found = service.getTerminal('1234');
       const foundByName = service.getTerminal('bash');
+      expect(found).toBe(foundByName);
       expect(foundByName).toBeDefined();
       expect(foundByName?.processId).toBe(1234);
     });
@@ -196,6 +828,48 @@ describe('TerminalBufferService', () => {
       const found = service.getTerminal('myterminal');
       expect(found).toBeDefined();
     });
+
+    it('should prefer an exact name over a partial match', () => {
+      mockOnDidOpenTerminal.fire(new MockTerminal('node-debug', 1234));
+      mockOnDidOpenTerminal.fire(new MockTerminal('node', 5678));
+
+      expect(service.getTerminal('node')?.name).toBe('node');
+    });
+
+    it('should report every candidate when a name matches several terminals', () => {
+      mockOnDidOpenTerminal.fire(new MockTerminal('bash', 1234));
+      mockOnDidOpenTerminal.fire(new MockTerminal('bash', 5678));
+      mockOnDidOpenTerminal.fire(new MockTerminal('zsh', 9012));
+
+      const resolution = service.resolveTerminal('bash');
+
+      expect(resolution.status).toBe('ambiguous');
+      expect(resolution.status === 'ambiguous' && resolution.candidates.map(t => t.name)).toEqual(['bash', 'bash']);
+      expect(service.getTerminal('bash')).toBeUndefined();
+      expect(service.resolveTerminal('b').status).toBe('ambiguous');
+    });
+
+    it('should leave filtered out terminals out of the candidates', () => {
+      mockOnDidOpenTerminal.fire(new MockTerminal('bash', 1234));
+      mockOnDidOpenTerminal.fire(new MockTerminal('bash', 5678));
+      const [visible] = service.getAllTerminals();
+
+      const resolution = service.resolveTerminal('bash', id => id === visible.id);
+
+      expect(resolution).toEqual({ status: 'found', terminal: visible });
+    });
+
+    it('should resolve the active keyword to the focused terminal', () => {
+      const terminal = new MockTerminal('server', 1234);
+      mockOnDidOpenTerminal.fire(new MockTerminal('bash', 5678));
+      mockOnDidOpenTerminal.fire(terminal);
+      vscodeMock.window.activeTerminal = terminal;
+
+      expect(service.getTerminal('active')?.name).toBe('server');
+
+      vscodeMock.window.activeTerminal = undefined;
+      expect(service.getTerminal('active')).toBeUndefined();
+    });
   });
 
   describe('buffer operations', () => {
@@ -246,6 +920,181 @@ describe('TerminalBufferService', () => {
     });
   });
 
+  describe('settings', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should resize existing buffers', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      for (let i = 0; i < 10; i++) {
+        mockOnDidWriteTerminalData.fire({ terminal, data: `Line ${i}\n` });
+      }
+
+      service.updateSettings({ maxBufferLines: 3 });
+
+      expect(service.getTerminalBuffer('bash')).toBe('Line 7\nLine 8\nLine 9');
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Line 10\n' });
+      expect(service.getTerminal('bash')?.buffer.length).toBe(3);
+    });
+
+    it('should resize the screen scrollback of existing terminals', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      terminal.dimensions = { columns: 40, rows: 2 };
+      mockOnDidOpenTerminal.fire(terminal);
+      for (let i = 0; i < 10; i++) {
+        mockOnDidWriteTerminalData.fire({ terminal, data: `Line ${i}\r\n` });
+      }
+
+      service.updateSettings({ maxBufferLines: 3 });
+
+      const screen = service.getTerminal('bash')!.screen;
+      expect(screen.scrollbackCapacity).toBe(3);
+      expect(screen.getScrollback(100)).not.toContain('Line 0');
+    });
+
+    it('should stop capturing output when disabled', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      service.updateSettings({ enabled: false });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'ignored\n' });
+      service.updateSettings({ enabled: true });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'captured\n' });
+
+      expect(service.getTerminalBuffer('bash')).toBe('captured');
+    });
+
+    it('should apply new noise filters', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      service.updateSettings({ noiseFilters: [/^DEBUG /] });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'DEBUG tick\n$\nINFO ready\n' });
+
+      expect(service.getTerminalBuffer('bash')).toBe('$\nINFO ready');
+    });
+
+    it('should start and stop raw capture for existing terminals', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+
+      service.updateSettings({ maxRawChars: 1000 });
+      mockOnDidWriteTerminalData.fire({ terminal, data: '\x1b[32mok\x1b[0m\n' });
+      expect(service.getTerminalBuffer('bash', 10, 'raw')).toBe('\x1b[32mok\x1b[0m\n');
+
+      service.updateSettings({ maxRawChars: 0 });
+      expect(service.getTerminal('bash')?.raw).toBeUndefined();
+    });
+
+    it('should trim the terminal holding the most output to stay under the memory cap', () => {
+      const busy = new MockTerminal('busy', 1);
+      const quiet = new MockTerminal('quiet', 2);
+      mockOnDidOpenTerminal.fire(busy);
+      mockOnDidOpenTerminal.fire(quiet);
+
+      mockOnDidWriteTerminalData.fire({ terminal: quiet, data: 'quiet line\n' });
+      service.updateSettings({ maxMemoryBytes: 1000 });
+      for (let i = 0; i < 100; i++) {
+        mockOnDidWriteTerminalData.fire({ terminal: busy, data: `busy line ${i}\n` });
+      }
+
+      const busyData = service.getTerminal('busy')!;
+      expect(busyData.buffer.textLength * 2).toBeLessThanOrEqual(1000);
+      expect(service.getTerminalBuffer('busy', 1)).toBe('busy line 99');
+      expect(service.getTerminalBuffer('quiet')).toBe('quiet line');
+    });
+
+    it('should count screen scrollback towards the memory cap', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      terminal.dimensions = { columns: 40, rows: 2 };
+      mockOnDidOpenTerminal.fire(terminal);
+
+      service.updateSettings({ maxRawChars: 0, maxMemoryBytes: 1000 });
+      for (let i = 0; i < 100; i++) {
+        mockOnDidWriteTerminalData.fire({ terminal, data: `line ${i}\r\n` });
+      }
+
+      const data = service.getTerminal('bash')!;
+      expect((data.buffer.textLength + data.screen.scrollbackTextLength) * 2).toBeLessThanOrEqual(1000);
+      expect(data.screen.getScrollback(1)).toEqual(['line 98']);
+    });
+  });
+
+  describe('screen emulation', () => {
+    beforeEach(() => {
+      service.initialize(context);
+    });
+
+    it('should replay output onto the screen using the terminal dimensions', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      terminal.dimensions = { columns: 40, rows: 10 };
+      mockOnDidOpenTerminal.fire(terminal);
+
+      mockOnDidWriteTerminalData.fire({ terminal, data: '\x1b]633;C\x07Building 10%\rBuilding 100%\r\n$ ' });
+
+      const screen = service.getTerminalScreen('bash');
+      expect(screen?.columns).toBe(40);
+      expect(screen?.rows).toBe(10);
+      expect(screen?.lines.slice(0, 2)).toEqual(['Building 100%', '$']);
+      expect(screen?.cursor).toEqual({ row: 1, column: 2 });
+    });
+
+    it('should resize the screen when the terminal dimensions change', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      expect(service.getTerminalScreen('bash')?.columns).toBe(80);
+
+      mockOnDidChangeTerminalDimensions.fire({ terminal, dimensions: { columns: 120, rows: 30 } });
+
+      expect(service.getTerminalScreen('bash')).toMatchObject({ columns: 120, rows: 30 });
+    });
+
+    it('should return null for non-existent terminal screen', () => {
+      expect(service.getTerminalScreen('nonexistent')).toBeNull();
+    });
+  });
+
+  describe('output formats', () => {
+    const data = '\x1b]633;C\x07\x1b[31mError\x1b[0m: bad\r\n  key:   value\r\n\r\nName    Size\r\n50%\r100%\r\n';
+
+    it('should not capture raw output by default', () => {
+      service.initialize(context);
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data });
+
+      expect(service.getTerminal('bash')?.raw).toBeUndefined();
+      expect(service.getTerminalBuffer('bash', 10, 'raw')).toBeNull();
+      expect(service.getTerminalBuffer('bash', 10)).toBe('Error: bad\nkey: value\nName Size\n50%100%');
+    });
+
+    it('should render the raw stream in each format', () => {
+      const rawService = new TerminalBufferService(1000, 10000);
+      rawService.initialize(context);
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data });
+
+      expect(rawService.getTerminalBuffer('bash', 10, 'raw')).toBe(
+        '\x1b[31mError\x1b[0m: bad\r\n  key:   value\r\n\r\nName    Size\r\n50%\r100%\r\n'
+      );
+      expect(rawService.getTerminalBuffer('bash', 10, 'preserve_whitespace')).toBe(
+        'Error: bad\n  key:   value\n\nName    Size\n100%'
+      );
+      expect(rawService.getTerminalBuffer('bash', 1, 'html')).toBe('100%');
+      expect(rawService.getTerminalBuffer('bash', 10, 'html')?.split('\n')[0]).toBe(
+        '<span style="color:#cd3131">Error</span>: bad'
+      );
+
+      rawService.clearTerminalBuffer('bash');
+      expect(rawService.getTerminalBuffer('bash', 10, 'raw')).toBe('');
+
+      rawService.dispose();
+    });
+  });
+
   describe('terminal statistics', () => {
     beforeEach(() => {
       service.initialize(context);
@@ -323,6 +1172,151 @@ describe('TerminalBufferService', () => {
     });
   });
 
+  describe('closed terminals', () => {
+    const retention = { archiveRetentionMs: 60 * 60 * 1000 };
+
+    beforeEach(() => {
+      service.updateSettings(retention);
+      service.initialize(context);
+    });
+
+    it('should keep a closed terminal readable', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Segmentation fault\n' });
+      mockOnDidCloseTerminal.fire(terminal);
+
+      expect(service.getAllTerminals()).toEqual([]);
+      expect(service.getAllTerminals(true).map(t => t.name)).toEqual(['bash']);
+      expect(service.getTerminal('bash')?.closedAt).toBeInstanceOf(Date);
+      expect(service.getTerminalBuffer('bash')).toBe('Segmentation fault');
+    });
+
+    it('should prefer an open terminal over a closed one with the same name', () => {
+      const closed = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(closed);
+      mockOnDidCloseTerminal.fire(closed);
+
+      const open = new MockTerminal('bash', 5678);
+      mockOnDidOpenTerminal.fire(open);
+
+      expect(service.getTerminal('bash')?.closedAt).toBeUndefined();
+    });
+
+    it('should drop closed terminals without a retention period', () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidCloseTerminal.fire(terminal);
+
+      service.updateSettings({ archiveRetentionMs: 0 });
+
+      expect(service.getAllTerminals(true)).toEqual([]);
+      expect(service.getTerminal('bash')).toBeUndefined();
+    });
+
+    it('should not wait for output from a closed terminal', async () => {
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'bye\n' });
+      mockOnDidCloseTerminal.fire(terminal);
+
+      const result = await service.waitForOutput('bash', /never/, { timeoutMs: 10000 });
+
+      expect(result?.status).toBe('terminal_closed');
+      expect(result?.before).toEqual(['bye']);
+    });
+
+    it('should restore history saved by the previous session', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+      const storedContext = Object.assign(new MockExtensionContext(), { storageUri: vscode.Uri.file(dir) }) as unknown as Context;
+      const persisted = { ...retention, persistHistory: true };
+
+      const first = new TerminalBufferService(1000);
+      first.updateSettings(persisted);
+      first.initialize(storedContext);
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Error: listen EADDRINUSE\n' });
+      first.dispose();
+
+      const second = new TerminalBufferService(1000);
+      second.updateSettings(persisted);
+      second.initialize(storedContext);
+      const reopened = new MockTerminal('bash', 5678);
+      mockOnDidOpenTerminal.fire(reopened);
+
+      const [open, closed] = second.getAllTerminals(true);
+      expect(closed.closedAt).toBeInstanceOf(Date);
+      expect(closed.buffer.texts()).toEqual(['Error: listen EADDRINUSE']);
+      expect(open.id).not.toBe(closed.id);
+
+      second.updateSettings({ persistHistory: false });
+      expect(fs.readdirSync(dir)).toEqual([]);
+
+      second.dispose();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should search restored terminals and end the commands they were running', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+      const storedContext = Object.assign(new MockExtensionContext(), { storageUri: vscode.Uri.file(dir) }) as unknown as Context;
+      const persisted = { ...retention, persistHistory: true, maxRawChars: 1000 };
+
+      const first = new TerminalBufferService(1000);
+      first.updateSettings(persisted);
+      first.initialize(storedContext);
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidStartTerminalShellExecution.fire({ terminal, execution: createExecution('npm run dev') });
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'Error: listen EADDRINUSE\n' });
+      first.dispose();
+
+      const second = new TerminalBufferService(1000);
+      second.updateSettings(persisted);
+      second.initialize(storedContext);
+
+      const [restored] = second.getAllTerminals(true);
+      expect(second.search('EADDRINUSE').matches.map(m => m.terminalId)).toEqual([restored.id]);
+      expect(restored.raw?.capacity).toBe(1000);
+      expect(restored.commands[0]).toMatchObject({ commandLine: 'npm run dev', endedAt: restored.closedAt });
+      expect(restored.commands[0].exitCode).toBeUndefined();
+
+      second.dispose();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the id of a terminal VS Code reattaches after a reload', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+      const storedContext = Object.assign(new MockExtensionContext(), { storageUri: vscode.Uri.file(dir) }) as unknown as Context;
+      const persisted = { ...retention, persistHistory: true };
+
+      const first = new TerminalBufferService(1000);
+      first.updateSettings(persisted);
+      first.initialize(storedContext);
+      const terminal = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(terminal);
+      mockOnDidWriteTerminalData.fire({ terminal, data: 'before reload\n' });
+      await Promise.resolve();
+      const { id } = first.getAllTerminals()[0];
+      first.dispose();
+
+      const second = new TerminalBufferService(1000);
+      second.updateSettings(persisted);
+      second.initialize(storedContext);
+      const reattached = new MockTerminal('bash', 1234);
+      mockOnDidOpenTerminal.fire(reattached);
+      mockOnDidWriteTerminalData.fire({ terminal: reattached, data: 'after reload\n' });
+      await Promise.resolve();
+
+      expect(second.getAllTerminals(true)).toHaveLength(1);
+      expect(second.getAllTerminals()[0].id).toBe(id);
+      expect(second.getTerminalBuffer(id)).toBe('before reload\nafter reload');
+
+      second.dispose();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
   describe('dispose', () => {
     it('should clean up all resources', () => {
       service.initialize(context);
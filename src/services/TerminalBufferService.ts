@@ -1,27 +1,347 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { BufferRead, LineBuffer } from './LineBuffer';
+import { RawOutputBuffer } from './RawOutputBuffer';
+import { redactRaw, renderHtml, renderPlainText } from './AnsiRenderer';
+import { ScreenSnapshot, VirtualTerminal } from './VirtualTerminal';
+import { TerminalHistoryStore } from './TerminalHistoryStore';
+import { parseDiagnostics, TerminalDiagnostic } from './ErrorParser';
+import { isInRange, TimeRange } from './TimeRange';
+import { AccessPolicy, TerminalFacts } from './AccessPolicy';
 
 /// <reference path="./vscode.proposed.terminalDataWriteEvent.d.ts" />
+/// <reference path="./vscode.proposed.terminalDimensions.d.ts" />
+
+export interface CommandRecord {
+  id: number;
+  commandLine: string;
+  cwd: string | undefined;
+  startedAt: Date;
+  endedAt: Date | undefined;
+  exitCode: number | undefined;
+  output: string[];
+  source: 'shellIntegration' | 'sequence';
+}
+
+/** Options a terminal was created with, minus anything that may hold secrets */
+export interface TerminalCreationInfo {
+  shellArgs?: string[] | string;
+  /** Names of the variables set through `env`. Values are never kept. */
+  envVariables?: string[];
+  isTransient?: boolean;
+  hideFromUser?: boolean;
+}
 
 export interface TerminalData {
+  /** Assigned once and kept when the terminal is renamed or the window reloads */
   id: string;
+  /** Current name, updated when the shell or the user renames the terminal */
   name: string;
   processId: number | undefined;
-  buffer: string[];
+  /** Shell executable from the creation options. Unset for the default profile. */
+  shellPath?: string;
+  /** Shell type VS Code detected, e.g. `zsh` or `pwsh` */
+  shellType?: string;
+  /** Latest working directory reported by shell integration, else the one it started in */
+  cwd?: string;
+  /** Workspace folder containing `cwd` */
+  workspaceFolder?: string;
+  /** Whether the terminal was created to run a task */
+  isTask?: boolean;
+  /** Latest task run in this terminal */
+  task?: TaskRun;
+  creationOptions?: TerminalCreationInfo;
+  buffer: LineBuffer;
+  /** Output as written, escape sequences included. Undefined when raw capture is off. */
+  raw: RawOutputBuffer | undefined;
+  /** Emulated screen the output is replayed onto, with its own scrollback */
+  screen: VirtualTerminal;
+  commands: CommandRecord[];
   createdAt: Date;
   lastActivity: Date;
+  /** Set once the terminal has closed. Its output stays readable until the archive retention passes. */
+  closedAt?: Date;
+}
+
+/**
+ * clean: ANSI codes, blank lines and repeated spaces stripped (default)
+ * raw: output exactly as written, escape sequences included
+ * preserve_whitespace: ANSI codes stripped, indentation and alignment kept
+ * html: like preserve_whitespace, with ANSI colours converted to styled spans
+ */
+export type OutputFormat = 'clean' | 'raw' | 'preserve_whitespace' | 'html';
+
+export interface CaptureSettings {
+  /** When false, terminal output is ignored. Commands are still tracked. */
+  enabled: boolean;
+  maxBufferLines: number;
+  /** Size of the per-terminal raw stream for the non-clean formats. 0 disables raw capture. */
+  maxRawChars: number;
+  /** Approximate limit for the text captured across all terminals. 0 for no limit. */
+  maxMemoryBytes: number;
+  /** Cleaned lines matching any of these are dropped */
+  noiseFilters: RegExp[];
+  /** How long closed terminals stay readable. 0 drops them as soon as they close. */
+  archiveRetentionMs: number;
+  /** Save history to the extension's storage so it survives window reloads */
+  persistHistory: boolean;
+  /** Limit for the saved history before compression */
+  maxHistoryBytes: number;
+}
+
+/** Prompt fragments and shell integration leftovers that survive ANSI stripping */
+export const DEFAULT_NOISE_FILTERS = [
+  '^\\d+;',
+  '^[➜%$]$',
+  'OSC(Un)?Lock=',
+  '(Start|End)Prompt',
+  'PreExec|NewCmd=',
+];
+
+export interface FailureRecord {
+  terminalId: string;
+  terminalName: string;
+  /** Undefined when the terminal process itself exited with a non-zero code */
+  commandLine: string | undefined;
+  exitCode: number;
+  startedAt: Date;
+  endedAt: Date;
+  output: string[];
+  /**
+   * What access rules are matched against, as the terminal was when the
+   * command failed. Missing from history saved by earlier versions.
+   */
+  access?: TerminalFacts;
+}
+
+export interface TerminalOutputEvent {
+  terminalId: string;
+  lines: string[];
+  /** Sequence number the first of the lines got in the terminal's buffer */
+  firstSeq: number;
+}
+
+export interface CommandEndEvent {
+  terminalId: string;
+  command: CommandRecord;
 }
 
+export interface WaitForOutputOptions {
+  timeoutMs: number;
+  contextLines?: number;
+  /** Applied to each line before matching, so the pattern cannot probe for what it removes */
+  redact?: (line: string) => string;
+}
+
+export interface WaitForOutputResult {
+  status: 'matched' | 'command_finished' | 'terminal_closed' | 'timeout';
+  line: string | undefined;
+  before: string[];
+  after: string[];
+  command: CommandRecord | undefined;
+  waitedMs: number;
+}
+
+export interface TaskProblem {
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  severity: 'error' | 'warning' | 'info' | 'hint';
+  message: string;
+  source: string | undefined;
+}
+
+export interface TaskRun {
+  /** Increases with every task started in this window */
+  id: number;
+  name: string;
+  /** Where the task comes from, e.g. `Workspace` for tasks.json or `npm` for a detected script */
+  source: string;
+  /** Type from the task definition, e.g. `shell` or `npm` */
+  type: string;
+  problemMatchers: string[];
+  /** Undefined until the task's terminal is found */
+  terminalId: string | undefined;
+  startedAt: Date;
+  endedAt: Date | undefined;
+  /** Undefined while running and for tasks without a process */
+  exitCode: number | undefined;
+  /** Diagnostics of the files whose problems changed while the task ran, which is how problem matchers report */
+  problems: TaskProblem[];
+  /** Part of the terminal's buffer written while the task ran, as line sequence numbers */
+  startSeq: number | undefined;
+  endSeq: number | undefined;
+}
+
+/** Narrows queries that span terminals, e.g. to the ones MCP clients may see */
+export type TerminalFilter = (terminalId: string, terminalName: string) => boolean;
+
+/** Failures outlive their terminals, so they are filtered on what was recorded with them */
+export type FailureFilter = (failure: FailureRecord) => boolean;
+
+/** Looking a terminal up by this resolves to the one focused in the editor */
+export const ACTIVE_TERMINAL_KEYWORD = 'active';
+
+export type TerminalResolution =
+  | { status: 'found'; terminal: TerminalData }
+  | { status: 'ambiguous'; candidates: TerminalData[] }
+  | { status: 'not_found' };
+
+export interface SearchOptions {
+  terminal?: string;
+  filter?: TerminalFilter;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  before?: number;
+  after?: number;
+  maxResults?: number;
+  /** Only lines captured within this range */
+  range?: TimeRange;
+  /** Applied to each line before matching, so the pattern cannot probe for what it removes */
+  redact?: (line: string) => string;
+}
+
+export interface SearchMatch {
+  terminalId: string;
+  terminalName: string;
+  /** 1-based line number within the terminal's current buffer */
+  lineNumber: number;
+  seq: number;
+  line: string;
+  timestamp: Date;
+  before: string[];
+  after: string[];
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  truncated: boolean;
+}
+
+interface RunningTask {
+  run: TaskRun;
+  changedUris: Map<string, vscode.Uri>;
+}
+
+interface CommandTracking {
+  current: CommandRecord | undefined;
+  nextId: number;
+  pendingCommandLine: string | undefined;
+  cwd: string | undefined;
+  hasShellIntegrationEvents: boolean;
+}
+
+// OSC 633 (VS Code) and OSC 133 (FinalTerm) shell integration markers
+// eslint-disable-next-line no-control-regex
+const SHELL_INTEGRATION_SEQUENCE = /\x1B\](633|133);([^\x07\x1B]*)(?:\x07|\x1B\\)/g;
+
 export class TerminalBufferService {
+  private static readonly MAX_COMMAND_HISTORY = 200;
+  private static readonly MAX_FAILURES = 50;
+  private static readonly MAX_FAILURE_OUTPUT_LINES = 200;
+  private static readonly MAX_TASK_RUNS = 50;
+  private static readonly MAX_TASK_PROBLEMS = 100;
+  private static readonly MAX_ERROR_COMMANDS = 20;
+  private static readonly DEFAULT_ERROR_LINES = 1000;
+  // Used until the terminal reports its size, which only happens once it is shown
+  private static readonly DEFAULT_COLUMNS = 80;
+  private static readonly DEFAULT_ROWS = 24;
+  private static readonly HISTORY_FILE = 'terminal-history.json.gz';
+  // Saving rewrites the whole file, so output is batched rather than saved as it arrives
+  private static readonly SAVE_DELAY_MS = 30000;
+
   private terminals: Map<string, TerminalData> = new Map();
-  private readonly maxBufferLines: number;
+  private archived: Map<string, TerminalData> = new Map();
+  private historyStore: TerminalHistoryStore | undefined;
+  private saveTimer: ReturnType<typeof setTimeout> | undefined;
+  private settings: CaptureSettings;
   private disposables: vscode.Disposable[] = [];
+  private outputEmitter = new vscode.EventEmitter<TerminalOutputEvent>();
+  private terminalsChangedEmitter = new vscode.EventEmitter<void>();
+  private commandEndEmitter = new vscode.EventEmitter<CommandEndEvent>();
   private terminalToIdMap: WeakMap<vscode.Terminal, string> = new WeakMap();
+  private idToTerminalMap: Map<string, vscode.Terminal> = new Map();
+  private commandTracking: Map<string, CommandTracking> = new Map();
+  private failures: FailureRecord[] = [];
+  private taskRuns: TaskRun[] = [];
+  private runningTasks: Map<vscode.TaskExecution, RunningTask> = new Map();
+  private nextTaskRunId = 1;
+  /** Restored terminals that were open when saved, by process id, so VS Code reattaching them keeps their id */
+  private reattachable: Map<number, string> = new Map();
+
+  /** Fires after cleaned lines have been appended to a terminal's buffer */
+  public readonly onDidCaptureOutput = this.outputEmitter.event;
+
+  /** Fires when a terminal is registered or unregistered */
+  public readonly onDidChangeTerminals = this.terminalsChangedEmitter.event;
+
+  /** Fires when a tracked command finishes, with or without an exit code */
+  public readonly onDidEndCommand = this.commandEndEmitter.event;
+
+  /**
+   * @param maxRawChars Size of the per-terminal raw output stream kept for the
+   * non-clean output formats. 0 disables raw capture.
+   */
+  constructor(maxBufferLines: number = 10000, maxRawChars: number = 0) {
+    this.settings = {
+      enabled: true,
+      maxBufferLines,
+      maxRawChars,
+      maxMemoryBytes: 0,
+      noiseFilters: DEFAULT_NOISE_FILTERS.map(pattern => new RegExp(pattern)),
+      archiveRetentionMs: 0,
+      persistHistory: false,
+      maxHistoryBytes: 10 * 1024 * 1024,
+    };
+  }
+
+  /** Applies changed settings to the terminals already being tracked */
+  public updateSettings(settings: Partial<CaptureSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+
+    for (const terminal of this.allTerminals()) {
+      this.applyBufferSizes(terminal);
+    }
+
+    this.enforceMemoryCap();
+    this.pruneArchive();
+
+    if (this.historyStore && !this.settings.persistHistory) {
+      this.historyStore.clear();
+    }
+  }
+
+  private applyBufferSizes(terminal: TerminalData): void {
+    const { maxBufferLines, maxRawChars } = this.settings;
 
-  constructor(maxBufferLines: number = 10000) {
-    this.maxBufferLines = maxBufferLines;
+    if (terminal.buffer.capacity !== maxBufferLines) {
+      terminal.buffer.resize(maxBufferLines);
+    }
+    if (terminal.screen.scrollbackCapacity !== maxBufferLines) {
+      terminal.screen.resizeScrollback(maxBufferLines);
+    }
+
+    if (maxRawChars <= 0) {
+      terminal.raw = undefined;
+    } else if (!terminal.raw) {
+      terminal.raw = new RawOutputBuffer(maxRawChars);
+    } else if (terminal.raw.capacity !== maxRawChars) {
+      terminal.raw.resize(maxRawChars);
+    }
   }
 
   public initialize(context: vscode.ExtensionContext): void {
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    this.historyStore = new TerminalHistoryStore(path.join(storageUri.fsPath, TerminalBufferService.HISTORY_FILE));
+    if (this.settings.persistHistory) {
+      this.restoreHistory();
+    } else {
+      this.historyStore.clear();
+    }
+
     vscode.window.terminals.forEach(terminal => {
       this.registerTerminal(terminal);
     });
@@ -48,46 +368,356 @@ export class TerminalBufferService {
     } else {
       console.warn('[TerminalBufferService] onDidWriteTerminalData not available - terminal capture disabled');
     }
+
+    if (vscode.window.onDidChangeTerminalDimensions) {
+      this.disposables.push(
+        vscode.window.onDidChangeTerminalDimensions(event => {
+          this.getTerminalDataFor(event.terminal)?.screen.resize(event.dimensions.columns, event.dimensions.rows);
+        })
+      );
+    }
+
+    // VS Code has no rename event, but a shell renaming its terminal comes with a state change
+    this.disposables.push(
+      vscode.window.onDidChangeTerminalState(terminal => {
+        this.updateMetadata(terminal);
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidChangeTerminalShellIntegration(event => {
+        this.updateMetadata(event.terminal);
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution(event => {
+        this.handleExecutionStart(event);
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidEndTerminalShellExecution(event => {
+        this.handleExecutionEnd(event);
+      })
+    );
+
+    this.disposables.push(
+      vscode.tasks.onDidStartTask(event => {
+        this.handleTaskStart(event.execution);
+      })
+    );
+
+    this.disposables.push(
+      vscode.tasks.onDidEndTaskProcess(event => {
+        const running = this.runningTasks.get(event.execution);
+        if (running) {
+          running.run.exitCode = event.exitCode;
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.tasks.onDidEndTask(event => {
+        this.handleTaskEnd(event.execution);
+      })
+    );
+
+    this.disposables.push(
+      vscode.languages.onDidChangeDiagnostics(event => {
+        for (const { changedUris } of this.runningTasks.values()) {
+          for (const uri of event.uris) {
+            changedUris.set(uri.toString(), uri);
+          }
+        }
+      })
+    );
   }
 
   private captureTerminalData(event: vscode.TerminalDataWriteEvent): void {
+    if (!this.settings.enabled) {
+      return;
+    }
+
     const terminal = event.terminal;
     const data = event.data;
     const id = this.terminalToIdMap.get(terminal);
     if (!id) {
       return;
     }
-    
+
     const terminalData = this.terminals.get(id);
     if (!terminalData) {
       return;
     }
 
+    if (terminal.name !== terminalData.name) {
+      this.updateMetadata(terminal);
+    }
+
+    terminalData.screen.write(data);
+
+    const firstSeq = terminalData.buffer.nextSeq;
+    const appended: string[] = [];
+    let lastIndex = 0;
+    for (const match of data.matchAll(SHELL_INTEGRATION_SEQUENCE)) {
+      appended.push(...this.appendOutput(terminalData, data.slice(lastIndex, match.index)));
+      this.handleShellIntegrationSequence(terminalData, match[2]);
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    appended.push(...this.appendOutput(terminalData, data.slice(lastIndex)));
+
+    terminalData.lastActivity = new Date();
+    this.enforceMemoryCap();
+    this.scheduleSave();
+
+    if (appended.length > 0) {
+      this.outputEmitter.fire({ terminalId: id, lines: appended, firstSeq });
+    }
+  }
+
+  private appendOutput(terminalData: TerminalData, data: string): string[] {
+    if (!data) {
+      return [];
+    }
+
+    terminalData.raw?.append(data);
+
+    const current = this.commandTracking.get(terminalData.id)?.current;
+    const now = Date.now();
     const cleanData = this.stripAnsiCodes(data);
     const lines = cleanData.split('\n');
+    const appended: string[] = [];
 
     for (const line of lines) {
       const trimmedLine = line.trim();
       if (trimmedLine.length > 0 && !this.isNoiseLine(trimmedLine)) {
-        terminalData.buffer.push(trimmedLine);
+        terminalData.buffer.push(trimmedLine, now);
+        current?.output.push(trimmedLine);
+        appended.push(trimmedLine);
       }
     }
 
-    terminalData.lastActivity = new Date();
+    if (current && current.output.length > this.settings.maxBufferLines) {
+      current.output = current.output.slice(-this.settings.maxBufferLines);
+    }
+
+    return appended;
+  }
+
+  /**
+   * Fallback command tracking for shells whose integration is not reported
+   * through the shell execution API. Markers: E = command line, P = property
+   * (Cwd), C = output starts, D = command finished with optional exit code.
+   */
+  private handleShellIntegrationSequence(terminalData: TerminalData, payload: string): void {
+    const tracking = this.getCommandTracking(terminalData.id);
+    const [marker, ...args] = payload.split(';');
+
+    switch (marker) {
+      case 'E':
+        tracking.pendingCommandLine = this.unescapeSequenceValue(args[0] ?? '');
+        break;
+
+      case 'P': {
+        const property = args.join(';');
+        if (property.startsWith('Cwd=')) {
+          tracking.cwd = this.unescapeSequenceValue(property.slice('Cwd='.length));
+        }
+        break;
+      }
+
+      case 'C':
+        this.startCommand(terminalData, 'sequence', tracking.pendingCommandLine ?? '', tracking.cwd);
+        tracking.pendingCommandLine = undefined;
+        break;
+
+      case 'D': {
+        const exitCode = args[0] ? parseInt(args[0], 10) : undefined;
+        this.endCommand(terminalData, 'sequence', Number.isNaN(exitCode) ? undefined : exitCode);
+        break;
+      }
+    }
+  }
+
+  private unescapeSequenceValue(value: string): string {
+    return value.replace(/\\(?:\\|x([0-9a-fA-F]{2}))/g, (_, hex: string | undefined) =>
+      hex ? String.fromCharCode(parseInt(hex, 16)) : '\\'
+    );
+  }
+
+  private handleExecutionStart(event: vscode.TerminalShellExecutionStartEvent): void {
+    const terminalData = this.getTerminalDataFor(event.terminal);
+    if (!terminalData) {
+      return;
+    }
+
+    const { execution } = event;
+    this.startCommand(terminalData, 'shellIntegration', execution.commandLine.value, execution.cwd?.fsPath);
+  }
+
+  private handleExecutionEnd(event: vscode.TerminalShellExecutionEndEvent): void {
+    const terminalData = this.getTerminalDataFor(event.terminal);
+    if (!terminalData) {
+      return;
+    }
+
+    this.endCommand(terminalData, 'shellIntegration', event.exitCode);
+  }
+
+  private startCommand(
+    terminalData: TerminalData,
+    source: CommandRecord['source'],
+    commandLine: string,
+    cwd: string | undefined
+  ): void {
+    const tracking = this.getCommandTracking(terminalData.id);
+
+    if (source === 'shellIntegration') {
+      tracking.hasShellIntegrationEvents = true;
+
+      // The marker in the data stream may arrive before the API event
+      const current = tracking.current;
+      if (current?.source === 'sequence') {
+        current.commandLine = commandLine || current.commandLine;
+        current.cwd = cwd ?? current.cwd;
+        current.source = 'shellIntegration';
+        return;
+      }
+    } else if (tracking.hasShellIntegrationEvents) {
+      return;
+    }
+
+    if (tracking.current) {
+      this.endCommand(terminalData, source, undefined);
+    }
+
+    const command: CommandRecord = {
+      id: tracking.nextId++,
+      commandLine,
+      cwd: cwd ?? tracking.cwd,
+      startedAt: new Date(),
+      endedAt: undefined,
+      exitCode: undefined,
+      output: [],
+      source,
+    };
+
+    tracking.current = command;
+    terminalData.commands.push(command);
+    if (command.cwd) {
+      this.setCwd(terminalData, command.cwd);
+    }
+
+    if (terminalData.commands.length > TerminalBufferService.MAX_COMMAND_HISTORY) {
+      terminalData.commands.shift();
+    }
+  }
+
+  private endCommand(
+    terminalData: TerminalData,
+    source: CommandRecord['source'],
+    exitCode: number | undefined
+  ): void {
+    const tracking = this.getCommandTracking(terminalData.id);
 
-    if (terminalData.buffer.length > this.maxBufferLines) {
-      terminalData.buffer = terminalData.buffer.slice(-this.maxBufferLines);
+    if (source === 'sequence' && tracking.hasShellIntegrationEvents) {
+      return;
+    }
+
+    const current = tracking.current;
+    if (!current) {
+      return;
+    }
+
+    current.endedAt = new Date();
+    current.exitCode = exitCode;
+    tracking.current = undefined;
+    this.commandEndEmitter.fire({ terminalId: terminalData.id, command: current });
+
+    if (exitCode !== undefined && exitCode !== 0) {
+      this.recordFailure({
+        terminalId: terminalData.id,
+        terminalName: terminalData.name,
+        commandLine: current.commandLine,
+        exitCode,
+        startedAt: current.startedAt,
+        endedAt: current.endedAt,
+        output: current.output.slice(-TerminalBufferService.MAX_FAILURE_OUTPUT_LINES),
+        access: AccessPolicy.factsOf(terminalData),
+      });
     }
   }
 
+  private recordFailure(failure: FailureRecord): void {
+    this.failures.push(failure);
+
+    if (this.failures.length > TerminalBufferService.MAX_FAILURES) {
+      this.failures.shift();
+    }
+  }
+
+  private getCommandTracking(id: string): CommandTracking {
+    let tracking = this.commandTracking.get(id);
+    if (!tracking) {
+      tracking = {
+        current: undefined,
+        nextId: 1,
+        pendingCommandLine: undefined,
+        cwd: undefined,
+        hasShellIntegrationEvents: false,
+      };
+      this.commandTracking.set(id, tracking);
+    }
+    return tracking;
+  }
+
+  private getTerminalDataFor(terminal: vscode.Terminal): TerminalData | undefined {
+    const id = this.terminalToIdMap.get(terminal);
+    return id ? this.terminals.get(id) : undefined;
+  }
+
   private isNoiseLine(line: string): boolean {
-    if (/^\d+;/.test(line)) return true;
-    if (line.startsWith('1;') || line.startsWith('2;') || line.startsWith('7;')) return true;
-    if (line === '➜' || line === '%' || line === '$') return true;
-    if (line.includes('OSCLock=') || line.includes('OSCUnlock=')) return true;
-    if (line.includes('StartPrompt') || line.includes('EndPrompt')) return true;
-    if (line.includes('PreExec') || line.includes('NewCmd=')) return true;
-    return false;
+    return this.settings.noiseFilters.some(filter => filter.test(line));
+  }
+
+  /**
+   * Drops the oldest output of whichever terminal holds the most until the
+   * estimated size of everything captured fits under maxMemoryBytes.
+   */
+  private enforceMemoryCap(): void {
+    const limit = this.settings.maxMemoryBytes;
+    if (limit <= 0) {
+      return;
+    }
+
+    const terminals = this.allTerminals();
+    let total = terminals.reduce((sum, t) => sum + this.estimateMemory(t), 0);
+
+    while (total > limit) {
+      const largest = terminals.reduce((a, b) => (this.estimateMemory(b) > this.estimateMemory(a) ? b : a));
+      const before = this.estimateMemory(largest);
+
+      const { buffer, raw, screen } = largest;
+      if (raw && raw.length > buffer.textLength && raw.length >= screen.scrollbackTextLength) {
+        raw.dropOldest(Math.ceil(raw.length / 10));
+      } else if (screen.scrollbackTextLength > buffer.textLength) {
+        screen.dropOldestScrollback(Math.ceil(screen.scrollbackLength / 10));
+      } else {
+        buffer.dropOldest(Math.ceil(buffer.length / 10));
+      }
+
+      const freed = before - this.estimateMemory(largest);
+      if (freed <= 0) {
+        break;
+      }
+      total -= freed;
+    }
+  }
+
+  private estimateMemory(terminal: TerminalData): number {
+    // JavaScript strings are UTF-16
+    return (terminal.buffer.textLength + (terminal.raw?.length ?? 0) + terminal.screen.scrollbackTextLength) * 2;
   }
 
   private stripAnsiCodes(str: string): string {
@@ -111,84 +741,769 @@ export class TerminalBufferService {
       .join('\n');
   }
 
-  private registerTerminal(terminal: vscode.Terminal): void {
+  private registerTerminal(terminal: vscode.Terminal): TerminalData {
     const id = this.getTerminalId(terminal);
-    
-    if (!this.terminals.has(id)) {
-      const terminalData: TerminalData = {
+    let terminalData = this.terminals.get(id);
+
+    if (!terminalData) {
+      const options = terminal.creationOptions as vscode.TerminalOptions;
+      terminalData = {
         id,
         name: terminal.name,
         processId: undefined,
-        buffer: [],
+        shellPath: options.shellPath,
+        creationOptions: {
+          shellArgs: options.shellArgs,
+          envVariables: options.env ? Object.keys(options.env) : undefined,
+          isTransient: options.isTransient,
+          hideFromUser: options.hideFromUser,
+        },
+        buffer: new LineBuffer(this.settings.maxBufferLines),
+        raw: this.settings.maxRawChars > 0 ? new RawOutputBuffer(this.settings.maxRawChars) : undefined,
+        screen: new VirtualTerminal(
+          terminal.dimensions?.columns ?? TerminalBufferService.DEFAULT_COLUMNS,
+          terminal.dimensions?.rows ?? TerminalBufferService.DEFAULT_ROWS,
+          this.settings.maxBufferLines
+        ),
+        commands: [],
         createdAt: new Date(),
         lastActivity: new Date(),
       };
       this.terminals.set(id, terminalData);
       this.terminalToIdMap.set(terminal, id);
+      this.idToTerminalMap.set(id, terminal);
 
+      const registered = terminalData;
       terminal.processId.then(pid => {
-        terminalData.processId = pid;
+        registered.processId = pid;
+        if (pid !== undefined) {
+          this.reattach(registered, pid);
+        }
       });
       
       console.log(`[TerminalBufferService] Registered terminal: ${terminal.name} (${id})`);
+      this.terminalsChangedEmitter.fire();
+    }
+
+    this.updateMetadata(terminal);
+    return terminalData;
+  }
+
+  /**
+   * Picks up a new name, working directory, shell type and task state. Fires
+   * onDidChangeTerminals when the name changed.
+   */
+  private updateMetadata(terminal: vscode.Terminal): void {
+    const terminalData = this.getTerminalDataFor(terminal);
+    if (!terminalData) {
+      return;
+    }
+
+    const options = terminal.creationOptions as vscode.TerminalOptions;
+    const initialCwd = typeof options.cwd === 'string' ? options.cwd : options.cwd?.fsPath;
+    const cwd = terminal.shellIntegration?.cwd?.fsPath ?? this.commandTracking.get(terminalData.id)?.cwd;
+    this.setCwd(terminalData, cwd ?? terminalData.cwd ?? initialCwd);
+
+    terminalData.shellType = terminal.state.shell ?? terminalData.shellType;
+    // A finished task leaves its terminal open, so this stays set once seen
+    terminalData.isTask = terminalData.isTask || TerminalBufferService.isTaskTerminal(terminal);
+
+    const pendingTask = [...this.runningTasks.values()].find(
+      ({ run }) => run.terminalId === undefined && TerminalBufferService.isTerminalOf(terminal.name, run.name)
+    );
+    if (pendingTask) {
+      this.linkTask(terminalData, pendingTask.run);
+    }
+
+    if (terminal.name !== terminalData.name) {
+      console.log(`[TerminalBufferService] Terminal ${terminalData.id} renamed: ${terminalData.name} -> ${terminal.name}`);
+      terminalData.name = terminal.name;
+      this.terminalsChangedEmitter.fire();
+    }
+  }
+
+  private setCwd(terminalData: TerminalData, cwd: string | undefined): void {
+    if (!cwd || cwd === terminalData.cwd) {
+      return;
+    }
+
+    terminalData.cwd = cwd;
+    terminalData.workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(cwd))?.uri.fsPath;
+  }
+
+  private static isTaskTerminal(terminal: vscode.Terminal): boolean {
+    return vscode.tasks.taskExecutions.some(execution => TerminalBufferService.isTerminalOf(terminal.name, execution.task.name));
+  }
+
+  /** Task terminals are named after the task, with a `Task - ` prefix in older VS Code versions */
+  private static isTerminalOf(terminalName: string, taskName: string): boolean {
+    return terminalName === taskName || terminalName === `Task - ${taskName}`;
+  }
+
+  private handleTaskStart(execution: vscode.TaskExecution): void {
+    const { task } = execution;
+    const run: TaskRun = {
+      id: this.nextTaskRunId++,
+      name: task.name,
+      source: task.source,
+      type: task.definition.type,
+      problemMatchers: [...task.problemMatchers],
+      terminalId: undefined,
+      startedAt: new Date(),
+      endedAt: undefined,
+      exitCode: undefined,
+      problems: [],
+      startSeq: undefined,
+      endSeq: undefined,
+    };
+
+    this.taskRuns.push(run);
+    if (this.taskRuns.length > TerminalBufferService.MAX_TASK_RUNS) {
+      this.taskRuns.shift();
+    }
+    this.runningTasks.set(execution, { run, changedUris: new Map() });
+
+    // A reused task terminal is already open. Otherwise it is linked when it opens.
+    const terminal = [...this.terminals.values()].find(t => TerminalBufferService.isTerminalOf(t.name, task.name));
+    if (terminal) {
+      this.linkTask(terminal, run);
     }
   }
 
+  private handleTaskEnd(execution: vscode.TaskExecution): void {
+    const running = this.runningTasks.get(execution);
+    if (!running) {
+      return;
+    }
+    this.runningTasks.delete(execution);
+
+    const { run, changedUris } = running;
+    run.endedAt = new Date();
+    run.endSeq = run.terminalId ? this.getTerminalById(run.terminalId)?.buffer.nextSeq : undefined;
+    run.problems = [...changedUris.values()]
+      .flatMap(uri => vscode.languages.getDiagnostics(uri).map(diagnostic => TerminalBufferService.toProblem(uri, diagnostic)))
+      .slice(0, TerminalBufferService.MAX_TASK_PROBLEMS);
+  }
+
+  private linkTask(terminalData: TerminalData, run: TaskRun): void {
+    run.terminalId = terminalData.id;
+    run.startSeq = terminalData.buffer.nextSeq;
+    terminalData.task = run;
+    terminalData.isTask = true;
+  }
+
+  private static toProblem(uri: vscode.Uri, diagnostic: vscode.Diagnostic): TaskProblem {
+    const severities: TaskProblem['severity'][] = ['error', 'warning', 'info', 'hint'];
+    return {
+      file: uri.fsPath,
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      severity: severities[diagnostic.severity],
+      message: diagnostic.message,
+      source: diagnostic.source,
+    };
+  }
+
+  /**
+   * VS Code reattaches persistent terminals to their processes after a
+   * reload. When the process is one a restored terminal was running, the
+   * terminal takes over that id, output and commands.
+   */
+  private reattach(terminalData: TerminalData, processId: number): void {
+    const restoredId = this.reattachable.get(processId);
+    const restored = restoredId !== undefined ? this.archived.get(restoredId) : undefined;
+    this.reattachable.delete(processId);
+
+    const terminal = this.idToTerminalMap.get(terminalData.id);
+    if (!restored || !terminal) {
+      return;
+    }
+
+    const previousId = terminalData.id;
+    for (const line of terminalData.buffer) {
+      restored.buffer.push(line.text, line.timestamp);
+    }
+
+    const tracking = this.getCommandTracking(previousId);
+    tracking.nextId = Math.max(tracking.nextId, ...restored.commands.map(c => c.id + 1));
+    this.commandTracking.delete(previousId);
+    this.commandTracking.set(restored.id, tracking);
+
+    Object.assign(terminalData, {
+      id: restored.id,
+      buffer: restored.buffer,
+      commands: [...restored.commands, ...terminalData.commands].slice(-TerminalBufferService.MAX_COMMAND_HISTORY),
+      createdAt: restored.createdAt,
+    });
+
+    this.archived.delete(restored.id);
+    this.terminals.delete(previousId);
+    this.terminals.set(restored.id, terminalData);
+    this.idToTerminalMap.delete(previousId);
+    this.idToTerminalMap.set(restored.id, terminal);
+    this.terminalToIdMap.set(terminal, restored.id);
+
+    console.log(`[TerminalBufferService] Reattached terminal: ${terminalData.name} (${restored.id})`);
+    this.terminalsChangedEmitter.fire();
+  }
+
   private unregisterTerminal(terminal: vscode.Terminal): void {
     const id = this.getTerminalId(terminal);
+    const terminalData = this.terminals.get(id);
+    const exitCode = terminal.exitStatus?.code;
+
+    if (terminalData && exitCode !== undefined) {
+      this.recordTerminalExit(terminalData, exitCode);
+    }
+
+    if (terminalData && this.settings.archiveRetentionMs > 0) {
+      terminalData.closedAt = new Date();
+      this.archived.set(id, terminalData);
+      this.scheduleSave();
+    }
+
     this.terminals.delete(id);
+    this.idToTerminalMap.delete(id);
+    this.commandTracking.delete(id);
+    this.pruneArchive();
     console.log(`[TerminalBufferService] Unregistered terminal: ${terminal.name} (${id})`);
+    this.terminalsChangedEmitter.fire();
+  }
+
+  private allTerminals(): TerminalData[] {
+    return [...this.terminals.values(), ...this.archived.values()];
+  }
+
+  private pruneArchive(): void {
+    const cutoff = Date.now() - this.settings.archiveRetentionMs;
+
+    for (const [id, terminal] of this.archived) {
+      // Archived terminals are always closed, a missing time just counts as expired
+      if ((terminal.closedAt?.getTime() ?? 0) <= cutoff || this.settings.archiveRetentionMs <= 0) {
+        this.archived.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Loads the previous session's terminals as closed ones. Settings are
+   * applied before this runs, so the restored terminals are sized here.
+   */
+  private restoreHistory(): void {
+    const history = this.historyStore?.load(this.settings.maxBufferLines);
+    if (!history) {
+      return;
+    }
+
+    for (const terminal of history.terminals) {
+      this.applyBufferSizes(terminal);
+      this.archived.set(terminal.id, terminal);
+
+      if (history.openIds.includes(terminal.id) && terminal.processId !== undefined) {
+        this.reattachable.set(terminal.processId, terminal.id);
+      }
+    }
+    this.failures = history.failures;
+    this.pruneArchive();
+    this.enforceMemoryCap();
+  }
+
+  private scheduleSave(): void {
+    if (!this.settings.persistHistory || !this.historyStore || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveHistory();
+    }, TerminalBufferService.SAVE_DELAY_MS);
   }
 
-  private terminalCounter: number = 0;
+  /** Writes the history now, e.g. before the window reloads */
+  public saveHistory(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+
+    if (!this.settings.persistHistory || !this.historyStore) {
+      return;
+    }
+
+    try {
+      this.pruneArchive();
+      this.historyStore.save(this.allTerminals(), this.failures, this.settings.maxHistoryBytes);
+    } catch (error) {
+      console.error('[TerminalBufferService] Failed to save terminal history:', error);
+    }
+  }
+
+  private recordTerminalExit(terminalData: TerminalData, exitCode: number): void {
+    const tracking = this.commandTracking.get(terminalData.id);
+
+    // A command still running when the process exits is what took it down
+    if (tracking?.current) {
+      this.endCommand(terminalData, 'shellIntegration', exitCode);
+      return;
+    }
+
+    if (exitCode !== 0) {
+      this.recordFailure({
+        terminalId: terminalData.id,
+        terminalName: terminalData.name,
+        commandLine: undefined,
+        exitCode,
+        startedAt: terminalData.createdAt,
+        endedAt: new Date(),
+        output: terminalData.buffer.tail(TerminalBufferService.MAX_FAILURE_OUTPUT_LINES).map(l => l.text),
+        access: AccessPolicy.factsOf(terminalData),
+      });
+    }
+  }
 
   private getTerminalId(terminal: vscode.Terminal): string {
     let id = this.terminalToIdMap.get(terminal);
     if (!id) {
-      id = `terminal-${this.terminalCounter++}-${terminal.name}`;
+      // Random rather than counted, so ids from other windows and earlier sessions never clash
+      do {
+        id = `terminal-${crypto.randomBytes(4).toString('hex')}`;
+      } while (this.terminals.has(id) || this.archived.has(id));
       this.terminalToIdMap.set(terminal, id);
     }
     return id;
   }
 
-  public getAllTerminals(): TerminalData[] {
-    return Array.from(this.terminals.values());
+  /**
+   * Starts tracking a terminal without waiting for onDidOpenTerminal, e.g. one
+   * the extension just created and is about to write to.
+   */
+  public trackTerminal(terminal: vscode.Terminal): TerminalData {
+    return this.registerTerminal(terminal);
+  }
+
+  public getVscodeTerminal(nameOrId: string): vscode.Terminal | undefined {
+    const terminal = this.getTerminal(nameOrId);
+    return terminal ? this.idToTerminalMap.get(terminal.id) : undefined;
   }
 
+  /** Open terminals, followed by closed ones still in the archive when `includeClosed` is set */
+  public getAllTerminals(includeClosed: boolean = false): TerminalData[] {
+    return includeClosed ? this.allTerminals() : Array.from(this.terminals.values());
+  }
+
+  /** Undefined when nothing matches or the match is ambiguous, see resolveTerminal */
   public getTerminal(nameOrId: string): TerminalData | undefined {
-    if (this.terminals.has(nameOrId)) {
-      return this.terminals.get(nameOrId);
-    }
+    const resolution = this.resolveTerminal(nameOrId);
+    return resolution.status === 'found' ? resolution.terminal : undefined;
+  }
+
+  public getTerminalById(id: string): TerminalData | undefined {
+    return this.terminals.get(id) ?? this.archived.get(id);
+  }
+
+  /**
+   * Tries, in order: exact id, exact name (ignoring case), process id, the
+   * active terminal keyword and finally a name containing the search term.
+   * The first step with any match decides. Open terminals win over closed
+   * ones, and several matches make the lookup ambiguous rather than a guess.
+   */
+  public resolveTerminal(nameOrId: string, filter?: TerminalFilter): TerminalResolution {
+    const terminals = this.allTerminals().filter(t => !filter || filter(t.id, t.name));
+    const search = nameOrId.trim().toLowerCase();
+    const processId = /^\d+$/.test(search) ? Number(search) : undefined;
+    const activeTerminal = vscode.window.activeTerminal;
+    const activeId = activeTerminal ? this.terminalToIdMap.get(activeTerminal) : undefined;
 
-    const searchTerm = nameOrId.toLowerCase();
-    for (const terminal of this.terminals.values()) {
-      if (terminal.name.toLowerCase().includes(searchTerm)) {
-        return terminal;
+    const steps: ((terminal: TerminalData) => boolean)[] = [
+      t => t.id === nameOrId,
+      t => t.name.toLowerCase() === search,
+      t => processId !== undefined && t.processId === processId,
+      t => search === ACTIVE_TERMINAL_KEYWORD && t.id === activeId,
+      t => search.length > 0 && t.name.toLowerCase().includes(search),
+    ];
+
+    for (const matches of steps) {
+      const candidates = terminals.filter(matches);
+      const open = candidates.filter(t => !t.closedAt);
+      const preferred = open.length > 0 ? open : candidates;
+
+      if (preferred.length === 1) {
+        return { status: 'found', terminal: preferred[0] };
+      }
+      if (preferred.length > 1) {
+        return { status: 'ambiguous', candidates: preferred };
       }
     }
 
-    return undefined;
+    return { status: 'not_found' };
   }
 
-  public getTerminalBuffer(nameOrId: string, lines?: number): string | null {
+  /**
+   * Returns the last `lines` lines of output. Formats other than clean are
+   * rendered from the raw stream, so they return null when raw capture is off.
+   */
+  /** `redact` is applied to formats other than clean before styles and markup can break secrets apart */
+  public getTerminalBuffer(
+    nameOrId: string,
+    lines?: number,
+    format: OutputFormat = 'clean',
+    redact?: (line: string) => string
+  ): string | null {
     const terminal = this.getTerminal(nameOrId);
     
     if (!terminal) {
       return null;
     }
 
+    if (format !== 'clean') {
+      return terminal.raw ? this.formatRawOutput(terminal.raw, format, lines, redact) : null;
+    }
+
     const buffer = terminal.buffer;
     const requestedLines = lines || buffer.length;
-    const startIndex = Math.max(0, buffer.length - requestedLines);
     
-    return buffer.slice(startIndex).join('\n');
+    return buffer.tail(requestedLines).map(l => l.text).join('\n');
+  }
+
+  private formatRawOutput(
+    raw: RawOutputBuffer,
+    format: Exclude<OutputFormat, 'clean'>,
+    lines?: number,
+    redact?: (line: string) => string
+  ): string {
+    if (format === 'raw') {
+      const output = lines ? raw.tail(lines) : raw.toString();
+      return redact ? redactRaw(output, redact) : output;
+    }
+
+    // Rendering has to start at the beginning so colours set earlier carry over
+    const rendered = format === 'html' ? renderHtml(raw.toString(), redact) : renderPlainText(raw.toString());
+    return (lines ? rendered.slice(-lines) : rendered).join('\n');
+  }
+
+  /**
+   * Reads lines captured at or after `cursor`, a sequence number returned as
+   * `nextCursor` by a previous read. Returns null if the terminal does not exist.
+   */
+  public readTerminalBuffer(nameOrId: string, cursor: number, limit?: number): BufferRead | null {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return null;
+    }
+
+    return terminal.buffer.since(cursor, limit);
+  }
+
+  /** Reads the lines captured within a time range, see LineBuffer.between */
+  public readTerminalRange(nameOrId: string, range: TimeRange, limit?: number): BufferRead | null {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return null;
+    }
+
+    return terminal.buffer.between(range, limit);
+  }
+
+  /**
+   * Returns the emulated screen as the user currently sees it, plus up to
+   * `scrollbackLines` lines that scrolled off it.
+   */
+  public getTerminalScreen(nameOrId: string, scrollbackLines: number = 0): ScreenSnapshot | null {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return null;
+    }
+
+    return terminal.screen.snapshot(scrollbackLines);
+  }
+
+  public getCommands(nameOrId: string, limit?: number): CommandRecord[] | null {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return null;
+    }
+
+    const requested = limit || terminal.commands.length;
+    return terminal.commands.slice(-requested);
+  }
+
+  public getCommand(nameOrId: string, commandId?: number): CommandRecord | undefined {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return undefined;
+    }
+
+    if (commandId === undefined) {
+      return terminal.commands[terminal.commands.length - 1];
+    }
+
+    return terminal.commands.find(c => c.id === commandId);
+  }
+
+  /**
+   * Parses compiler, lint, test and stack trace output into diagnostics. With
+   * shell integration each recent command is parsed on its own so diagnostics
+   * name the command that printed them; otherwise the last `lines` lines of the
+   * buffer are parsed. Returns null when the terminal is not found.
+   */
+  public getTerminalErrors(
+    nameOrId: string,
+    options: { commandId?: number; lines?: number } = {}
+  ): TerminalDiagnostic[] | null {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return null;
+    }
+
+    const commands = options.commandId !== undefined
+      ? terminal.commands.filter(c => c.id === options.commandId)
+      : terminal.commands.slice(-TerminalBufferService.MAX_ERROR_COMMANDS);
+
+    if (commands.length === 0 && options.commandId === undefined) {
+      const lines = terminal.buffer.tail(options.lines ?? TerminalBufferService.DEFAULT_ERROR_LINES).map(l => l.text);
+      return parseDiagnostics(lines, { cwd: terminal.cwd });
+    }
+
+    return commands.flatMap(command => parseDiagnostics(
+      options.lines !== undefined ? command.output.slice(-options.lines) : command.output,
+      { command: command.commandLine, cwd: command.cwd ?? terminal.cwd }
+    ));
+  }
+
+  /** Most recent non-zero exits first, only from the terminal with `terminalId` if given */
+  public getRecentFailures(limit?: number, terminalId?: string, filter?: FailureFilter): FailureRecord[] {
+    let failures = this.failures.slice().reverse();
+
+    if (filter) {
+      failures = failures.filter(filter);
+    }
+
+    if (terminalId) {
+      failures = failures.filter(f => f.terminalId === terminalId);
+    }
+
+    return limit ? failures.slice(0, limit) : failures;
+  }
+
+  public getLastFailure(filter?: FailureFilter): FailureRecord | undefined {
+    if (filter) {
+      return this.getRecentFailures(1, undefined, filter)[0];
+    }
+    return this.failures[this.failures.length - 1];
+  }
+
+  /**
+   * Newest first. Runs in terminals the filter rejects are left out, and runs
+   * without a terminal are judged by the task's name alone.
+   */
+  public getTaskRuns(limit?: number, filter?: TerminalFilter): TaskRun[] {
+    let runs = this.taskRuns.slice().reverse();
+
+    if (filter) {
+      runs = runs.filter(run => {
+        const terminal = run.terminalId ? this.getTerminalById(run.terminalId) : undefined;
+        return filter(run.terminalId ?? '', terminal?.name ?? run.name);
+      });
+    }
+
+    return limit !== undefined ? runs.slice(0, limit) : runs;
+  }
+
+  /** Latest run of the task with this name, ignoring case, or else of the only task whose name contains it */
+  public getTaskRun(name: string, filter?: TerminalFilter): TaskRun | undefined {
+    const runs = this.getTaskRuns(undefined, filter);
+    const search = name.toLowerCase();
+
+    const exact = runs.find(run => run.name.toLowerCase() === search);
+    if (exact) {
+      return exact;
+    }
+
+    const partial = runs.filter(run => run.name.toLowerCase().includes(search));
+    return new Set(partial.map(run => run.name)).size === 1 ? partial[0] : undefined;
+  }
+
+  /** Lines the task wrote to its terminal that are still buffered, or the last `lines` of them */
+  public getTaskOutput(run: TaskRun, lines?: number): string[] {
+    const terminal = run.terminalId ? this.getTerminalById(run.terminalId) : undefined;
+    const { startSeq } = run;
+    if (!terminal || startSeq === undefined) {
+      return [];
+    }
+
+    const endSeq = run.endSeq ?? terminal.buffer.nextSeq;
+    const output = terminal.buffer
+      .slice()
+      .filter(line => line.seq >= startSeq && line.seq < endSeq)
+      .map(line => line.text);
+
+    return lines !== undefined ? output.slice(-lines) : output;
+  }
+
+  /**
+   * Searches the captured buffers for a literal string, or a regular expression
+   * when `regex` is set. Throws if the regular expression is invalid.
+   */
+  public search(pattern: string, options: SearchOptions = {}): SearchResult {
+    const { terminal, filter, regex = false, caseSensitive = false, before = 0, after = 0, maxResults = 100, range, redact } = options;
+    const source = regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const matcher = new RegExp(source, caseSensitive ? '' : 'i');
+
+    let terminals: TerminalData[];
+    if (terminal) {
+      const found = this.getTerminal(terminal);
+      terminals = found ? [found] : [];
+    } else {
+      terminals = this.getAllTerminals(true);
+    }
+
+    if (filter) {
+      terminals = terminals.filter(t => filter(t.id, t.name));
+    }
+
+    const matches: SearchMatch[] = [];
+
+    for (const terminalData of terminals) {
+      const lines = terminalData.buffer.slice();
+      const texts = lines.map(l => l.text);
+
+      for (let i = 0; i < lines.length; i++) {
+        if ((range && !isInRange(lines[i].timestamp, range)) || !matcher.test(redact ? redact(texts[i]) : texts[i])) {
+          continue;
+        }
+
+        if (matches.length >= maxResults) {
+          return { matches, truncated: true };
+        }
+
+        matches.push({
+          terminalId: terminalData.id,
+          terminalName: terminalData.name,
+          lineNumber: i + 1,
+          seq: lines[i].seq,
+          line: texts[i],
+          timestamp: new Date(lines[i].timestamp),
+          before: texts.slice(Math.max(0, i - before), i),
+          after: texts.slice(i + 1, i + 1 + after),
+        });
+      }
+    }
+
+    return { matches, truncated: false };
+  }
+
+  /**
+   * Resolves when a line captured from now on matches `pattern`, a command in
+   * the terminal finishes, the terminal closes, or the timeout elapses.
+   * Returns null if the terminal does not exist.
+   */
+  public waitForOutput(
+    nameOrId: string,
+    pattern: RegExp,
+    options: WaitForOutputOptions
+  ): Promise<WaitForOutputResult | null> {
+    const terminal = this.getTerminal(nameOrId);
+
+    if (!terminal) {
+      return Promise.resolve(null);
+    }
+
+    const { timeoutMs, contextLines = 5, redact } = options;
+
+    if (terminal.closedAt) {
+      return Promise.resolve({
+        status: 'terminal_closed',
+        line: undefined,
+        before: terminal.buffer.tail(contextLines).map(l => l.text),
+        after: [],
+        command: undefined,
+        waitedMs: 0,
+      });
+    }
+    const startedAt = Date.now();
+
+    return new Promise(resolve => {
+      const subscriptions: vscode.Disposable[] = [];
+
+      const finish = (result: Omit<WaitForOutputResult, 'waitedMs'>) => {
+        clearTimeout(timer);
+        for (const subscription of subscriptions) {
+          subscription.dispose();
+        }
+        resolve({ ...result, waitedMs: Date.now() - startedAt });
+      };
+
+      const timer = setTimeout(() => {
+        finish({ status: 'timeout', line: undefined, before: [], after: [], command: undefined });
+      }, timeoutMs);
+
+      subscriptions.push(
+        this.onDidCaptureOutput(event => {
+          if (event.terminalId !== terminal.id) {
+            return;
+          }
+
+          const index = event.lines.findIndex(line => pattern.test(redact ? redact(line) : line));
+          if (index === -1) {
+            return;
+          }
+
+          // The memory cap may already have dropped lines of this very event,
+          // so only context from before the event is read back from the buffer
+          const earlier = event.lines.slice(Math.max(0, index - contextLines), index);
+          const missing = contextLines - earlier.length;
+          const older = missing > 0
+            ? terminal.buffer.since(event.firstSeq - missing, missing).lines.filter(l => l.seq < event.firstSeq)
+            : [];
+          finish({
+            status: 'matched',
+            line: event.lines[index],
+            before: [...older.map(l => l.text), ...earlier],
+            after: event.lines.slice(index + 1, index + 1 + contextLines),
+            command: this.commandTracking.get(terminal.id)?.current,
+          });
+        }),
+        this.onDidEndCommand(event => {
+          if (event.terminalId !== terminal.id) {
+            return;
+          }
+
+          finish({
+            status: 'command_finished',
+            line: undefined,
+            before: event.command.output.slice(-contextLines),
+            after: [],
+            command: event.command,
+          });
+        }),
+        this.onDidChangeTerminals(() => {
+          if (!this.terminals.has(terminal.id)) {
+            finish({
+              status: 'terminal_closed',
+              line: undefined,
+              before: terminal.buffer.tail(contextLines).map(l => l.text),
+              after: [],
+              command: undefined,
+            });
+          }
+        })
+      );
+    });
   }
 
   public clearTerminalBuffer(nameOrId: string): boolean {
     const terminal = this.getTerminal(nameOrId);
     
     if (terminal) {
-      terminal.buffer = [];
+      terminal.buffer.clear();
+      terminal.raw?.clear();
+      terminal.screen.clearScrollback();
       return true;
     }
     
@@ -209,15 +1524,27 @@ export class TerminalBufferService {
 
     return {
       totalLines: terminal.buffer.length,
-      bufferSize: terminal.buffer.join('\n').length,
+      bufferSize: terminal.buffer.texts().join('\n').length,
       createdAt: terminal.createdAt,
       lastActivity: terminal.lastActivity,
     };
   }
 
   public dispose(): void {
-    this.disposables.forEach(d => d.dispose());
+    this.saveHistory();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
     this.disposables = [];
+    this.outputEmitter.dispose();
+    this.terminalsChangedEmitter.dispose();
+    this.commandEndEmitter.dispose();
     this.terminals.clear();
+    this.archived.clear();
+    this.reattachable.clear();
+    this.runningTasks.clear();
+    this.idToTerminalMap.clear();
+    this.commandTracking.clear();
+    this.failures = [];
   }
 }
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LineBuffer } from './LineBuffer';
+import { TerminalHistoryStore } from './TerminalHistoryStore';
+import { TerminalData } from './TerminalBufferService';
+import { VirtualTerminal } from './VirtualTerminal';
+
+function createTerminal(id: string, lines: string[], lastActivity: string): TerminalData {
+  const buffer = new LineBuffer(100);
+  lines.forEach((line, i) => buffer.push(line, 1000 + i));
+
+  return {
+    id,
+    name: id.replace(/^terminal-\d+-/, ''),
+    processId: 1234,
+    cwd: '/work',
+    buffer,
+    raw: undefined,
+    screen: new VirtualTerminal(),
+    commands: [
+      {
+        id: 1,
+        commandLine: 'npm test',
+        cwd: '/work',
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        endedAt: new Date('2024-01-01T00:00:05Z'),
+        exitCode: 1,
+        output: ['FAIL'],
+        source: 'shellIntegration',
+      },
+    ],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    lastActivity: new Date(lastActivity),
+  };
+}
+
+describe('TerminalHistoryStore', () => {
+  let dir: string;
+  let store: TerminalHistoryStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+    store = new TerminalHistoryStore(path.join(dir, 'storage', 'history.json.gz'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restore saved terminals as closed', () => {
+    const terminal = createTerminal('terminal-0-bash', ['$ npm test', 'FAIL'], '2024-01-01T00:00:05Z');
+    const failure = {
+      terminalId: terminal.id,
+      terminalName: terminal.name,
+      commandLine: 'npm test',
+      exitCode: 1,
+      startedAt: new Date('2024-01-01T00:00:00Z'),
+      endedAt: new Date('2024-01-01T00:00:05Z'),
+      output: ['FAIL'],
+    };
+
+    store.save([terminal], [failure], 1024 * 1024);
+    const restored = store.load(100)!;
+
+    const [bash] = restored.terminals;
+    expect(bash.id).toBe('terminal-0-bash');
+    expect(bash.buffer.slice().map(l => [l.text, l.timestamp])).toEqual([['$ npm test', 1000], ['FAIL', 1001]]);
+    expect(bash.commands[0].endedAt).toEqual(new Date('2024-01-01T00:00:05Z'));
+    expect(bash.closedAt).toBeInstanceOf(Date);
+    expect(bash.raw).toBeUndefined();
+    expect(bash.cwd).toBe('/work');
+    expect(restored.openIds).toEqual(['terminal-0-bash']);
+    expect(restored.failures).toEqual([failure]);
+  });
+
+  it('should drop the least recently active terminals to stay under the size limit', () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `line ${i}`);
+    const old = createTerminal('terminal-0-old', lines, '2024-01-01T00:00:00Z');
+    const recent = createTerminal('terminal-1-recent', lines, '2024-01-02T00:00:00Z');
+
+    store.save([old, recent], [], 1500);
+    const restored = store.load(100)!;
+
+    expect(restored.terminals.map(t => t.id)).toEqual(['terminal-1-recent']);
+    expect(restored.terminals[0].buffer.length).toBeLessThan(50);
+    expect(restored.terminals[0].buffer.slice().pop()?.text).toBe('line 49');
+  });
+
+  it('should write a compressed file only the user can read', () => {
+    store.save([createTerminal('terminal-0-bash', ['secret'], '2024-01-01T00:00:00Z')], [], 1024 * 1024);
+    const filePath = path.join(dir, 'storage', 'history.json.gz');
+
+    expect(fs.readFileSync(filePath).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should return undefined for missing or corrupt history', () => {
+    expect(store.load(100)).toBeUndefined();
+
+    fs.mkdirSync(path.join(dir, 'storage'));
+    fs.writeFileSync(path.join(dir, 'storage', 'history.json.gz'), 'not gzip');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(store.load(100)).toBeUndefined();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { LineBuffer } from './LineBuffer';
+import { VirtualTerminal } from './VirtualTerminal';
+import type { CommandRecord, FailureRecord, TerminalCreationInfo, TerminalData } from './TerminalBufferService';
+
+interface PersistedCommand extends Omit<CommandRecord, 'startedAt' | 'endedAt'> {
+  startedAt: string;
+  endedAt: string | undefined;
+}
+
+interface PersistedTerminal {
+  id: string;
+  name: string;
+  processId: number | undefined;
+  shellPath: string | undefined;
+  shellType: string | undefined;
+  cwd: string | undefined;
+  workspaceFolder: string | undefined;
+  isTask: boolean | undefined;
+  creationOptions: TerminalCreationInfo | undefined;
+  createdAt: string;
+  lastActivity: string;
+  closedAt: string | undefined;
+  lines: { text: string; timestamp: number }[];
+  commands: PersistedCommand[];
+}
+
+interface PersistedFailure extends Omit<FailureRecord, 'startedAt' | 'endedAt'> {
+  startedAt: string;
+  endedAt: string;
+}
+
+interface PersistedHistory {
+  version: 1;
+  savedAt: string;
+  terminals: PersistedTerminal[];
+  failures: PersistedFailure[];
+}
+
+export interface RestoredHistory {
+  /** Every restored terminal is closed; ones still open when saved are closed as of the save */
+  terminals: TerminalData[];
+  failures: FailureRecord[];
+  /** Ids of the terminals that were still open when saved */
+  openIds: string[];
+}
+
+/**
+ * Saves terminal history as gzipped JSON so it survives window reloads. Only
+ * the cleaned lines and commands are kept; raw output and the emulated screen
+ * start empty after a restore.
+ */
+export class TerminalHistoryStore {
+  private static readonly VERSION = 1;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Writes the history, dropping the least recently active terminals and then
+   * the oldest lines until the JSON fits in `maxBytes` before compression
+   */
+  public save(terminals: TerminalData[], failures: FailureRecord[], maxBytes: number): void {
+    const history: PersistedHistory = {
+      version: TerminalHistoryStore.VERSION,
+      savedAt: new Date().toISOString(),
+      terminals: terminals
+        .slice()
+        .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+        .map(t => TerminalHistoryStore.serializeTerminal(t)),
+      failures: failures.map(f => ({ ...f, startedAt: f.startedAt.toISOString(), endedAt: f.endedAt.toISOString() })),
+    };
+
+    let json = JSON.stringify(history);
+    while (json.length > maxBytes && history.terminals.length > 0) {
+      const oldest = history.terminals[history.terminals.length - 1];
+      if (history.terminals.length > 1 || oldest.lines.length <= 1) {
+        history.terminals.pop();
+      } else {
+        oldest.lines = oldest.lines.slice(Math.ceil(oldest.lines.length / 2));
+      }
+      json = JSON.stringify(history);
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    // Terminal output can contain secrets, so keep the file private to the user
+    fs.writeFileSync(tempPath, zlib.gzipSync(json), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  /** Returns undefined when nothing was saved or the file cannot be read */
+  public load(maxBufferLines: number): RestoredHistory | undefined {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(zlib.gunzipSync(fs.readFileSync(this.filePath)).toString('utf-8'));
+    } catch (error) {
+      if (!(error instanceof Error && 'code' in error && error.code === 'ENOENT')) {
+        console.warn('[TerminalHistoryStore] Ignoring unreadable history:', error);
+      }
+      return undefined;
+    }
+
+    if (!TerminalHistoryStore.isPersistedHistory(parsed)) {
+      return undefined;
+    }
+    const history = parsed;
+
+    return {
+      terminals: history.terminals.map(t => TerminalHistoryStore.deserializeTerminal(t, history.savedAt, maxBufferLines)),
+      failures: history.failures.map(f => ({ ...f, startedAt: new Date(f.startedAt), endedAt: new Date(f.endedAt) })),
+      openIds: history.terminals.filter(t => !t.closedAt).map(t => t.id),
+    };
+  }
+
+  public clear(): void {
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  /** Only the outer shape is checked. Files of another version are ignored rather than migrated. */
+  private static isPersistedHistory(value: unknown): value is PersistedHistory {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const history = value as Partial<Record<keyof PersistedHistory, unknown>>;
+    return (
+      history.version === TerminalHistoryStore.VERSION &&
+      typeof history.savedAt === 'string' &&
+      Array.isArray(history.terminals) &&
+      Array.isArray(history.failures)
+    );
+  }
+
+  private static serializeTerminal(terminal: TerminalData): PersistedTerminal {
+    return {
+      id: terminal.id,
+      name: terminal.name,
+      processId: terminal.processId,
+      shellPath: terminal.shellPath,
+      shellType: terminal.shellType,
+      cwd: terminal.cwd,
+      workspaceFolder: terminal.workspaceFolder,
+      isTask: terminal.isTask,
+      creationOptions: terminal.creationOptions,
+      createdAt: terminal.createdAt.toISOString(),
+      lastActivity: terminal.lastActivity.toISOString(),
+      closedAt: terminal.closedAt?.toISOString(),
+      lines: terminal.buffer.slice().map(({ text, timestamp }) => ({ text, timestamp })),
+      commands: terminal.commands.map(c => ({
+        ...c,
+        startedAt: c.startedAt.toISOString(),
+        endedAt: c.endedAt?.toISOString(),
+      })),
+    };
+  }
+
+  private static deserializeTerminal(terminal: PersistedTerminal, savedAt: string, maxBufferLines: number): TerminalData {
+    const closedAt = new Date(terminal.closedAt ?? savedAt);
+    const buffer = new LineBuffer(maxBufferLines);
+    for (const line of terminal.lines) {
+      buffer.push(line.text, line.timestamp);
+    }
+
+    return {
+      id: terminal.id,
+      name: terminal.name,
+      processId: terminal.processId,
+      shellPath: terminal.shellPath,
+      shellType: terminal.shellType,
+      cwd: terminal.cwd,
+      workspaceFolder: terminal.workspaceFolder,
+      isTask: terminal.isTask,
+      creationOptions: terminal.creationOptions,
+      buffer,
+      raw: undefined,
+      screen: new VirtualTerminal(80, 24, 0),
+      // Commands still running when the window closed never report an end,
+      // so they end with the terminal, without an exit code
+      commands: terminal.commands.map(c => ({
+        ...c,
+        startedAt: new Date(c.startedAt),
+        endedAt: c.endedAt ? new Date(c.endedAt) : closedAt,
+      })),
+      createdAt: new Date(terminal.createdAt),
+      lastActivity: new Date(terminal.lastActivity),
+      closedAt,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { isInRange, parseTime, parseTimeRange } from './TimeRange';
+
+describe('parseTime', () => {
+  const now = new Date(2024, 11, 18, 10, 30, 0).getTime();
+
+  it('should read ISO timestamps', () => {
+    expect(parseTime('2024-12-18T09:15:00.000Z', now)).toBe(Date.UTC(2024, 11, 18, 9, 15));
+  });
+
+  it('should read durations before now', () => {
+    expect(parseTime('90s', now)).toBe(now - 90 * 1000);
+    expect(parseTime('1h30m', now)).toBe(now - 90 * 60 * 1000);
+    expect(parseTime('1.5d', now)).toBe(now - 36 * 60 * 60 * 1000);
+    expect(parseTime('now', now)).toBe(now);
+  });
+
+  it('should read local times of day, as yesterday when later than now', () => {
+    expect(parseTime('10:29:30', now)).toBe(now - 30 * 1000);
+    expect(parseTime('11:00', now)).toBe(new Date(2024, 11, 17, 11, 0).getTime());
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseTime('yesterday', now)).toThrow('Invalid time "yesterday"');
+    expect(() => parseTime('1523', now)).toThrow('Invalid time');
+    expect(() => parseTime('5 minutes', now)).toThrow('Invalid time');
+  });
+});
+
+describe('parseTimeRange', () => {
+  const now = Date.UTC(2024, 11, 18, 10, 30);
+
+  it('should leave missing bounds open', () => {
+    const range = parseTimeRange('5m', undefined, now);
+
+    expect(range).toEqual({ since: now - 5 * 60 * 1000, until: undefined });
+    expect(isInRange(now, range)).toBe(true);
+    expect(isInRange(now - 6 * 60 * 1000, range)).toBe(false);
+  });
+
+  it('should reject a range that ends before it starts', () => {
+    expect(() => parseTimeRange('1m', '5m', now)).toThrow('is after until');
+  });
+});
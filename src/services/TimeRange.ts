@@ -0,0 +1,72 @@
+/** Bounds in epoch milliseconds, both inclusive. A missing bound is open. */
+export interface TimeRange {
+  since?: number;
+  until?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const DURATION = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/;
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g;
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+/**
+ * Reads a point in time as an ISO timestamp, a duration before now such as
+ * `5m` or `1h30m`, or a local time of day such as `14:32:05`. A time of day
+ * later than now is taken to mean yesterday. Throws when the value is none of these.
+ */
+export function parseTime(value: string, now: number = Date.now()): number {
+  const text = value.trim();
+
+  if (text === 'now') {
+    return now;
+  }
+
+  if (DURATION.test(text)) {
+    let ms = 0;
+    for (const [, amount, unit] of text.matchAll(DURATION_PART)) {
+      ms += Number(amount) * DURATION_UNITS[unit];
+    }
+    return now - ms;
+  }
+
+  const timeOfDay = TIME_OF_DAY.exec(text);
+  if (timeOfDay) {
+    const [, hours, minutes, seconds = '0', millis = '0'] = timeOfDay;
+    const date = new Date(now);
+    date.setHours(Number(hours), Number(minutes), Number(seconds), Number(millis.padEnd(3, '0')));
+    if (Number(hours) < 24 && Number(minutes) < 60 && Number(seconds) < 60) {
+      return date.getTime() > now ? date.getTime() - DURATION_UNITS.d : date.getTime();
+    }
+  }
+
+  // Date.parse reads a bare number as a year, which is never what was meant
+  const timestamp = /^\d+$/.test(text) ? NaN : Date.parse(text);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid time "${value}". Use an ISO timestamp, a duration like "5m" or "1h30m", or a time of day like "14:32".`);
+  }
+  return timestamp;
+}
+
+/** Parses both bounds, rejecting a range that ends before it starts */
+export function parseTimeRange(since: string | undefined, until: string | undefined, now: number = Date.now()): TimeRange {
+  const range: TimeRange = {
+    since: since !== undefined ? parseTime(since, now) : undefined,
+    until: until !== undefined ? parseTime(until, now) : undefined,
+  };
+
+  if (range.since !== undefined && range.until !== undefined && range.since > range.until) {
+    throw new Error(`since (${new Date(range.since).toISOString()}) is after until (${new Date(range.until).toISOString()})`);
+  }
+  return range;
+}
+
+export function isInRange(timestamp: number, range: TimeRange): boolean {
+  return (range.since === undefined || timestamp >= range.since) && (range.until === undefined || timestamp <= range.until);
+}
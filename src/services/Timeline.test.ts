@@ -0,0 +1,53 @@
+import { buildTimeline, formatTimeline, timelineLabels } from './Timeline';
+import { LineBuffer } from './LineBuffer';
+import type { TerminalData } from './TerminalBufferService';
+
+function createTerminal(id: string, name: string, lines: [number, string][]): TerminalData {
+  const buffer = new LineBuffer(1000);
+  lines.forEach(([timestamp, text]) => buffer.push(text, timestamp));
+  return { id, name, buffer } as unknown as TerminalData;
+}
+
+describe('Timeline', () => {
+  const web = createTerminal('terminal-1', 'web', [[1000, 'GET /orders'], [3000, 'GET /orders 500'], [3000, 'TypeError: map']]);
+  const api = createTerminal('terminal-2', 'api', [[2000, 'listening'], [3000, 'Error: ECONNREFUSED'], [4000, 'retrying']]);
+  const texts = (terminals: TerminalData[], options = {}) =>
+    buildTimeline(terminals, options).entries.map(({ terminal, line }) => `${terminal.name}: ${line.text}`);
+
+  it('should interleave lines by time, keeping terminal order on ties', () => {
+    expect(texts([web, api])).toEqual([
+      'web: GET /orders',
+      'api: listening',
+      'web: GET /orders 500',
+      'web: TypeError: map',
+      'api: Error: ECONNREFUSED',
+      'api: retrying',
+    ]);
+  });
+
+  it('should filter by time range and pattern', () => {
+    expect(texts([web, api], { range: { since: 2000, until: 3000 }, pattern: /error/i })).toEqual([
+      'web: TypeError: map',
+      'api: Error: ECONNREFUSED',
+    ]);
+  });
+
+  it('should keep the first lines from a start time and the last lines otherwise', () => {
+    expect(buildTimeline([web, api], { limit: 2 })).toMatchObject({ truncated: true });
+    expect(texts([web, api], { limit: 2 })).toEqual(['api: Error: ECONNREFUSED', 'api: retrying']);
+    expect(texts([web, api], { range: { since: 2000 }, limit: 2 })).toEqual(['api: listening', 'web: GET /orders 500']);
+  });
+
+  it('should label terminals and add the id to shared names', () => {
+    const other = createTerminal('terminal-3', 'web', [[2500, 'compiled']]);
+    const labels = timelineLabels([web, api, other]);
+
+    expect([...labels.values()]).toEqual(['web terminal-1', 'api', 'web terminal-3']);
+    expect(formatTimeline(buildTimeline([api, other]), timelineLabels([api, other]), String)).toEqual([
+      '2000 [api] listening',
+      '2500 [web] compiled',
+      '3000 [api] Error: ECONNREFUSED',
+      '4000 [api] retrying',
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import type { BufferedLine } from './LineBuffer';
+import type { TerminalData } from './TerminalBufferService';
+import type { TimeRange } from './TimeRange';
+
+export interface TimelineOptions {
+  range?: TimeRange;
+  /** Only lines matching this */
+  pattern?: RegExp;
+  /** Applied to each line before matching, so the pattern cannot probe for what it removes */
+  redact?: (line: string) => string;
+  /** With a start time, the first `limit` lines from it, otherwise the last `limit` lines */
+  limit?: number;
+}
+
+export interface TimelineEntry {
+  terminal: TerminalData;
+  line: BufferedLine;
+}
+
+export interface Timeline {
+  entries: TimelineEntry[];
+  /** More lines matched than the limit allowed */
+  truncated: boolean;
+}
+
+/**
+ * Merges the buffered lines of several terminals into one chronological
+ * stream. Lines captured at the same millisecond keep the order of the
+ * terminals they came from.
+ */
+export function buildTimeline(terminals: TerminalData[], options: TimelineOptions = {}): Timeline {
+  const { range, pattern, redact, limit } = options;
+  const entries: TimelineEntry[] = [];
+
+  for (const terminal of terminals) {
+    const lines = range ? terminal.buffer.between(range).lines : terminal.buffer.slice();
+    for (const line of lines) {
+      if (!pattern || pattern.test(redact ? redact(line.text) : line.text)) {
+        entries.push({ terminal, line });
+      }
+    }
+  }
+
+  // Array.prototype.sort is stable, so the per-terminal order survives ties
+  entries.sort((a, b) => a.line.timestamp - b.line.timestamp);
+
+  if (limit === undefined || entries.length <= limit) {
+    return { entries, truncated: false };
+  }
+  return {
+    entries: range?.since !== undefined ? entries.slice(0, limit) : entries.slice(-limit),
+    truncated: true,
+  };
+}
+
+/** Terminal names, with the id added where two of the terminals share a name */
+export function timelineLabels(terminals: TerminalData[]): Map<string, string> {
+  const counts = new Map<string, number>();
+  for (const terminal of terminals) {
+    counts.set(terminal.name, (counts.get(terminal.name) ?? 0) + 1);
+  }
+
+  return new Map(terminals.map(t => [
+    t.id,
+    !t.name ? t.id : (counts.get(t.name) ?? 0) > 1 ? `${t.name} ${t.id}` : t.name,
+  ]));
+}
+
+/** One line per entry: the time, the terminal's label padded to a common width, and the text */
+export function formatTimeline(
+  timeline: Timeline,
+  labels: Map<string, string>,
+  formatTime: (timestamp: number) => string
+): string[] {
+  const width = Math.max(0, ...[...labels.values()].map(label => label.length));
+
+  return timeline.entries.map(({ terminal, line }) =>
+    `${formatTime(line.timestamp)} ${`[${labels.get(terminal.id)}]`.padEnd(width + 2)} ${line.text}`
+  );
+}
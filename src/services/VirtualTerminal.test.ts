@@ -0,0 +1,116 @@
+import { VirtualTerminal } from './VirtualTerminal';
+
+function screenText(vt: VirtualTerminal): string[] {
+  const lines = vt.snapshot().lines;
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+describe('VirtualTerminal', () => {
+  it('should write text and move to the next line on CR LF', () => {
+    const vt = new VirtualTerminal(20, 5);
+    vt.write('hello\r\nworld');
+
+    expect(screenText(vt)).toEqual(['hello', 'world']);
+    expect(vt.snapshot().cursor).toEqual({ row: 1, column: 5 });
+  });
+
+  it('should overwrite progress redraws in place', () => {
+    const vt = new VirtualTerminal(40, 5);
+    vt.write('Downloading  10%\rDownloading  55%\rDownloading 100%\r\n');
+    vt.write('⠋ installing\r\x1b[K⠙ installing\r\x1b[Kadded 12 packages\r\n');
+
+    expect(screenText(vt)).toEqual(['Downloading 100%', 'added 12 packages']);
+  });
+
+  it('should apply cursor movement and erases', () => {
+    const vt = new VirtualTerminal(20, 5);
+    vt.write('line one\r\nline two\r\nline three');
+    vt.write('\x1b[2;6H\x1b[KTWO');
+    vt.write('\x1b[1;1H\x1b[2Psne');
+    vt.write('\x1b[3;1H\x1b[2K');
+
+    expect(screenText(vt)).toEqual(['sneone', 'line TWO']);
+  });
+
+  it('should scroll lines off the top into the scrollback with redraws applied', () => {
+    const vt = new VirtualTerminal(20, 3);
+    vt.write('step 1/3\rstep 3/3\r\n');
+    vt.write('a\r\nb\r\nc\r\nd');
+
+    expect(screenText(vt)).toEqual(['b', 'c', 'd']);
+    expect(vt.getScrollback(10)).toEqual(['step 3/3', 'a']);
+    expect(vt.getScrollback(1)).toEqual(['a']);
+  });
+
+  it('should join wrapped rows in the scrollback', () => {
+    const vt = new VirtualTerminal(5, 2);
+    vt.write('abcdefgh\r\nnext\r\nlast');
+
+    expect(screenText(vt)).toEqual(['next', 'last']);
+    expect(vt.getScrollback(10)).toEqual(['abcdefgh']);
+  });
+
+  it('should not wrap before the last column is overflowed', () => {
+    const vt = new VirtualTerminal(5, 3);
+    vt.write('abcde\x1b[0m\r\nfg');
+
+    expect(screenText(vt)).toEqual(['abcde', 'fg']);
+  });
+
+  it('should keep the primary screen when a program uses the alternate screen', () => {
+    const vt = new VirtualTerminal(20, 4);
+    vt.write('$ top\r\n');
+    vt.write('\x1b[?1049h\x1b[H\x1b[2Jtop - 10:00:00\r\nPID USER');
+
+    expect(vt.snapshot().alternateScreen).toBe(true);
+    expect(screenText(vt)).toEqual(['top - 10:00:00', 'PID USER']);
+
+    vt.write('\x1b[?1049l');
+
+    expect(vt.snapshot().alternateScreen).toBe(false);
+    expect(screenText(vt)).toEqual(['$ top']);
+    expect(vt.snapshot().cursor).toEqual({ row: 1, column: 0 });
+  });
+
+  it('should honour scroll regions without touching the scrollback', () => {
+    const vt = new VirtualTerminal(20, 4);
+    vt.write('header\r\n1\r\n2\r\nfooter');
+    vt.write('\x1b[2;3r\x1b[3;1H\r\n3');
+
+    expect(screenText(vt)).toEqual(['header', '2', '3', 'footer']);
+    expect(vt.getScrollback(10)).toEqual([]);
+  });
+
+  it('should handle escape sequences split across writes', () => {
+    const vt = new VirtualTerminal(20, 3);
+    vt.write('abc\x1b');
+    vt.write('[2');
+    vt.write('Dx\x1b]0;ti');
+    vt.write('tle\x07!');
+
+    expect(screenText(vt)).toEqual(['ax!']);
+  });
+
+  it('should clear the scrollback on ESC [3J', () => {
+    const vt = new VirtualTerminal(20, 2);
+    vt.write('a\r\nb\r\nc\r\n');
+    vt.write('\x1b[H\x1b[2J\x1b[3J');
+
+    expect(screenText(vt)).toEqual([]);
+    expect(vt.getScrollback(10)).toEqual([]);
+  });
+
+  it('should resize and keep the cursor row visible', () => {
+    const vt = new VirtualTerminal(20, 4);
+    vt.write('1\r\n2\r\n3\r\n4');
+
+    vt.resize(3, 2);
+
+    expect(screenText(vt)).toEqual(['3', '4']);
+    expect(vt.getScrollback(10)).toEqual(['1', '2']);
+    expect(vt.snapshot()).toMatchObject({ columns: 3, rows: 2, cursor: { row: 1, column: 1 } });
+  });
+});
@@ -0,0 +1,563 @@
+import { LineBuffer } from './LineBuffer';
+
+export interface ScreenSnapshot {
+  columns: number;
+  rows: number;
+  /** Text of every row on the visible screen, trailing spaces removed */
+  lines: string[];
+  /** 0-based cursor position on the visible screen */
+  cursor: { row: number; column: number };
+  alternateScreen: boolean;
+  /** Most recent lines that scrolled off the top of the primary screen, oldest first */
+  scrollback: string[];
+}
+
+interface Row {
+  cells: string[];
+  /** Continues the previous row because the text before it wrapped */
+  wrapped: boolean;
+}
+
+interface Cursor {
+  x: number;
+  y: number;
+}
+
+type ParserState = 'ground' | 'escape' | 'escapeIntermediate' | 'csi' | 'string' | 'stringEscape';
+
+/**
+ * Minimal VT100/xterm emulator that replays terminal output onto a grid so the
+ * current screen can be read back the way the user sees it. Cursor movement,
+ * erases, scroll regions and the alternate screen are applied; colours and
+ * other attributes are ignored. Lines scrolled off the primary screen go to a
+ * bounded scrollback holding only their final text, with wrapped rows joined.
+ */
+export class VirtualTerminal {
+  private static readonly TAB_WIDTH = 8;
+
+  private primary: Row[];
+  private alternate: Row[] | undefined;
+  private cursor: Cursor = { x: 0, y: 0 };
+  private savedCursor: Cursor = { x: 0, y: 0 };
+  private primarySavedCursor: Cursor | undefined;
+  private wrapPending = false;
+  private scrollTop = 0;
+  private scrollBottom: number;
+
+  private state: ParserState = 'ground';
+  private params = '';
+
+  private scrollback: LineBuffer;
+  /** Last line scrolled off, held back until it is known whether the next one continues it */
+  private pendingScrollback: string | undefined;
+
+  constructor(private columns: number = 80, private rowCount: number = 24, maxScrollback: number = 1000) {
+    this.primary = this.blankRows(rowCount);
+    this.scrollBottom = rowCount - 1;
+    this.scrollback = new LineBuffer(maxScrollback);
+  }
+
+  private get screen(): Row[] {
+    return this.alternate ?? this.primary;
+  }
+
+  public write(data: string): void {
+    for (const char of data) {
+      this.consume(char);
+    }
+  }
+
+  public resize(columns: number, rows: number): void {
+    if (columns < 1 || rows < 1 || (columns === this.columns && rows === this.rowCount)) {
+      return;
+    }
+
+    for (const screen of [this.primary, this.alternate]) {
+      if (!screen) {
+        continue;
+      }
+
+      for (const row of screen) {
+        if (row.cells.length > columns) {
+          row.cells.length = columns;
+        }
+      }
+
+      // Shrinking keeps the cursor row visible by dropping rows from the top first
+      while (screen.length > rows && this.cursor.y > 0 && screen === this.screen) {
+        const [removed] = screen.splice(0, 1);
+        if (screen === this.primary) {
+          this.addToScrollback(removed);
+        }
+        this.cursor.y--;
+      }
+      screen.splice(rows);
+      while (screen.length < rows) {
+        screen.push(this.blankRow());
+      }
+    }
+
+    this.columns = columns;
+    this.rowCount = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.cursor = this.clampCursor(this.cursor);
+    this.savedCursor = this.clampCursor(this.savedCursor);
+    this.wrapPending = false;
+  }
+
+  public snapshot(scrollbackLines: number = 0): ScreenSnapshot {
+    return {
+      columns: this.columns,
+      rows: this.rowCount,
+      lines: this.screen.map(row => this.rowText(row)),
+      cursor: { row: this.cursor.y, column: this.cursor.x },
+      alternateScreen: this.alternate !== undefined,
+      scrollback: this.getScrollback(scrollbackLines),
+    };
+  }
+
+  public getScrollback(lines: number): string[] {
+    if (lines <= 0) {
+      return [];
+    }
+
+    const all = this.scrollback.texts();
+    if (this.pendingScrollback !== undefined) {
+      all.push(this.pendingScrollback);
+    }
+    return all.slice(-lines);
+  }
+
+  public clearScrollback(): void {
+    this.scrollback.clear();
+    this.pendingScrollback = undefined;
+  }
+
+  public get scrollbackCapacity(): number {
+    return this.scrollback.capacity;
+  }
+
+  /** Lines in the scrollback */
+  public get scrollbackLength(): number {
+    return this.scrollback.length + (this.pendingScrollback !== undefined ? 1 : 0);
+  }
+
+  /** Characters in the scrollback, for memory accounting */
+  public get scrollbackTextLength(): number {
+    return this.scrollback.textLength + (this.pendingScrollback?.length ?? 0);
+  }
+
+  /** Changes how many lines the scrollback holds, keeping the newest */
+  public resizeScrollback(maxLines: number): void {
+    this.scrollback.resize(maxLines);
+  }
+
+  /** Drops up to `lines` of the oldest scrollback lines */
+  public dropOldestScrollback(lines: number): void {
+    this.scrollback.dropOldest(lines);
+  }
+
+  private consume(char: string): void {
+    switch (this.state) {
+      case 'ground':
+        if (char === '\x1B') {
+          this.state = 'escape';
+        } else if (char < ' ' || char === '\x7F') {
+          this.control(char);
+        } else {
+          this.print(char);
+        }
+        break;
+
+      case 'escape':
+        this.escape(char);
+        break;
+
+      case 'escapeIntermediate':
+        // Final byte of e.g. a character set designation (ESC ( B)
+        if (char >= '0') {
+          this.state = 'ground';
+        }
+        break;
+
+      case 'csi':
+        if (char >= '@' && char <= '~') {
+          this.state = 'ground';
+          this.csi(this.params, char);
+        } else if (char === '\x1B') {
+          this.state = 'escape';
+        } else if (char >= ' ') {
+          this.params += char;
+        } else {
+          this.control(char);
+        }
+        break;
+
+      case 'string':
+        // OSC, DCS, SOS, PM and APC payloads end with BEL or ST (ESC \)
+        if (char === '\x07') {
+          this.state = 'ground';
+        } else if (char === '\x1B') {
+          this.state = 'stringEscape';
+        }
+        break;
+
+      case 'stringEscape':
+        this.state = char === '\\' ? 'ground' : 'string';
+        break;
+    }
+  }
+
+  private control(char: string): void {
+    switch (char) {
+      case '\r':
+        this.cursor.x = 0;
+        this.wrapPending = false;
+        break;
+      case '\n':
+      case '\v':
+      case '\f':
+        this.lineFeed();
+        break;
+      case '\b':
+        if (this.cursor.x > 0) {
+          this.cursor.x--;
+        }
+        this.wrapPending = false;
+        break;
+      case '\t':
+        this.cursor.x = Math.min(
+          this.columns - 1,
+          (Math.floor(this.cursor.x / VirtualTerminal.TAB_WIDTH) + 1) * VirtualTerminal.TAB_WIDTH
+        );
+        this.wrapPending = false;
+        break;
+    }
+  }
+
+  private escape(char: string): void {
+    this.state = 'ground';
+
+    switch (char) {
+      case '[':
+        this.state = 'csi';
+        this.params = '';
+        break;
+      case ']':
+      case 'P':
+      case 'X':
+      case '^':
+      case '_':
+        this.state = 'string';
+        break;
+      case '7':
+        this.savedCursor = { ...this.cursor };
+        break;
+      case '8':
+        this.cursor = this.clampCursor(this.savedCursor);
+        this.wrapPending = false;
+        break;
+      case 'D':
+        this.lineFeed();
+        break;
+      case 'E':
+        this.cursor.x = 0;
+        this.lineFeed();
+        break;
+      case 'M':
+        this.reverseIndex();
+        break;
+      case 'c':
+        this.reset();
+        break;
+      default:
+        if (char >= ' ' && char <= '/') {
+          this.state = 'escapeIntermediate';
+        }
+        break;
+    }
+  }
+
+  private csi(params: string, final: string): void {
+    const isPrivate = params.startsWith('?');
+    const args = (isPrivate ? params.slice(1) : params).split(';').map(p => parseInt(p, 10));
+    // Missing and empty parameters, which parse as NaN, take the default, as does 0
+    const arg = (index: number, fallback: number) => (Number.isInteger(args[index]) && args[index] !== 0 ? args[index] : fallback);
+    const n = arg(0, 1);
+
+    // Attribute and mode changes must not cancel a wrap due at the last column
+    if (final !== 'm' && final !== 'h' && final !== 'l') {
+      this.wrapPending = false;
+    }
+
+    switch (final) {
+      case 'A':
+        this.cursor.y = Math.max(0, this.cursor.y - n);
+        break;
+      case 'B':
+      case 'e':
+        this.cursor.y = Math.min(this.rowCount - 1, this.cursor.y + n);
+        break;
+      case 'C':
+      case 'a':
+        this.cursor.x = Math.min(this.columns - 1, this.cursor.x + n);
+        break;
+      case 'D':
+        this.cursor.x = Math.max(0, this.cursor.x - n);
+        break;
+      case 'E':
+        this.cursor = this.clampCursor({ x: 0, y: this.cursor.y + n });
+        break;
+      case 'F':
+        this.cursor = this.clampCursor({ x: 0, y: this.cursor.y - n });
+        break;
+      case 'G':
+      case '`':
+        this.cursor.x = Math.min(this.columns - 1, n - 1);
+        break;
+      case 'd':
+        this.cursor.y = Math.min(this.rowCount - 1, n - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.cursor = this.clampCursor({ x: arg(1, 1) - 1, y: n - 1 });
+        break;
+      case 'J':
+        this.eraseDisplay(Number.isNaN(args[0]) ? 0 : args[0]);
+        break;
+      case 'K':
+        this.eraseLine(Number.isNaN(args[0]) ? 0 : args[0]);
+        break;
+      case '@': {
+        const row = this.currentRow();
+        if (this.cursor.x < row.cells.length) {
+          row.cells.splice(this.cursor.x, 0, ...new Array(n).fill(' '));
+          row.cells.length = Math.min(row.cells.length, this.columns);
+        }
+        break;
+      }
+      case 'P':
+        this.currentRow().cells.splice(this.cursor.x, n);
+        break;
+      case 'X':
+        this.fill(this.currentRow(), this.cursor.x, this.cursor.x + n);
+        break;
+      case 'L':
+        if (this.cursor.y >= this.scrollTop && this.cursor.y <= this.scrollBottom) {
+          this.scrollDown(n, this.cursor.y);
+        }
+        break;
+      case 'M':
+        if (this.cursor.y >= this.scrollTop && this.cursor.y <= this.scrollBottom) {
+          this.scrollUp(n, this.cursor.y);
+        }
+        break;
+      case 'S':
+        this.scrollUp(n, this.scrollTop);
+        break;
+      case 'T':
+        this.scrollDown(n, this.scrollTop);
+        break;
+      case 'r': {
+        const top = arg(0, 1) - 1;
+        const bottom = Math.min(this.rowCount, arg(1, this.rowCount)) - 1;
+        if (top < bottom) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.cursor = { x: 0, y: 0 };
+        }
+        break;
+      }
+      case 's':
+        this.savedCursor = { ...this.cursor };
+        break;
+      case 'u':
+        this.cursor = this.clampCursor(this.savedCursor);
+        break;
+      case 'h':
+      case 'l':
+        if (isPrivate) {
+          for (const mode of args) {
+            this.setPrivateMode(mode, final === 'h');
+          }
+        }
+        break;
+    }
+  }
+
+  private setPrivateMode(mode: number, enabled: boolean): void {
+    if (mode !== 1049 && mode !== 1047 && mode !== 47) {
+      return;
+    }
+
+    if (enabled && !this.alternate) {
+      if (mode === 1049) {
+        this.primarySavedCursor = { ...this.cursor };
+      }
+      this.alternate = this.blankRows(this.rowCount);
+    } else if (!enabled && this.alternate) {
+      this.alternate = undefined;
+      if (mode === 1049 && this.primarySavedCursor) {
+        this.cursor = this.clampCursor(this.primarySavedCursor);
+      }
+    }
+
+    this.scrollTop = 0;
+    this.scrollBottom = this.rowCount - 1;
+  }
+
+  private print(char: string): void {
+    if (this.wrapPending) {
+      this.cursor.x = 0;
+      this.lineFeed();
+      this.currentRow().wrapped = true;
+      this.wrapPending = false;
+    }
+
+    const row = this.currentRow();
+    while (row.cells.length < this.cursor.x) {
+      row.cells.push(' ');
+    }
+    row.cells[this.cursor.x] = char;
+
+    if (this.cursor.x === this.columns - 1) {
+      this.wrapPending = true;
+    } else {
+      this.cursor.x++;
+    }
+  }
+
+  private lineFeed(): void {
+    this.wrapPending = false;
+
+    if (this.cursor.y === this.scrollBottom) {
+      this.scrollUp(1, this.scrollTop, true);
+    } else if (this.cursor.y < this.rowCount - 1) {
+      this.cursor.y++;
+    }
+  }
+
+  private reverseIndex(): void {
+    this.wrapPending = false;
+
+    if (this.cursor.y === this.scrollTop) {
+      this.scrollDown(1, this.scrollTop);
+    } else if (this.cursor.y > 0) {
+      this.cursor.y--;
+    }
+  }
+
+  /** Moves rows from `top` to the bottom of the scroll region up by `count` */
+  private scrollUp(count: number, top: number, toScrollback: boolean = false): void {
+    const screen = this.screen;
+    const height = this.scrollBottom - top + 1;
+    const removed = screen.splice(top, Math.min(count, height));
+
+    // Only rows scrolled off the very top of the primary screen are real scrollback
+    if (toScrollback && screen === this.primary && top === 0) {
+      for (const row of removed) {
+        this.addToScrollback(row);
+      }
+    }
+
+    screen.splice(this.scrollBottom - removed.length + 1, 0, ...this.blankRows(removed.length));
+  }
+
+  /** Moves rows from `top` to the bottom of the scroll region down by `count` */
+  private scrollDown(count: number, top: number): void {
+    const screen = this.screen;
+    const height = this.scrollBottom - top + 1;
+    const inserted = Math.min(count, height);
+
+    screen.splice(this.scrollBottom - inserted + 1, inserted);
+    screen.splice(top, 0, ...this.blankRows(inserted));
+  }
+
+  private eraseDisplay(mode: number): void {
+    const screen = this.screen;
+
+    if (mode === 0) {
+      this.eraseLine(0);
+      for (let y = this.cursor.y + 1; y < screen.length; y++) {
+        screen[y] = this.blankRow();
+      }
+    } else if (mode === 1) {
+      this.eraseLine(1);
+      for (let y = 0; y < this.cursor.y; y++) {
+        screen[y] = this.blankRow();
+      }
+    } else if (mode === 2) {
+      for (let y = 0; y < screen.length; y++) {
+        screen[y] = this.blankRow();
+      }
+    } else if (mode === 3) {
+      this.clearScrollback();
+    }
+  }
+
+  private eraseLine(mode: number): void {
+    const row = this.currentRow();
+
+    if (mode === 0) {
+      row.cells.length = Math.min(row.cells.length, this.cursor.x);
+    } else if (mode === 1) {
+      this.fill(row, 0, this.cursor.x + 1);
+    } else if (mode === 2) {
+      row.cells = [];
+    }
+  }
+
+  private fill(row: Row, from: number, to: number): void {
+    for (let x = from; x < Math.min(to, row.cells.length); x++) {
+      row.cells[x] = ' ';
+    }
+  }
+
+  private addToScrollback(row: Row): void {
+    const text = this.rowText(row);
+
+    if (row.wrapped && this.pendingScrollback !== undefined) {
+      this.pendingScrollback += text;
+      return;
+    }
+
+    if (this.pendingScrollback !== undefined) {
+      this.scrollback.push(this.pendingScrollback);
+    }
+    this.pendingScrollback = text;
+  }
+
+  private reset(): void {
+    this.primary = this.blankRows(this.rowCount);
+    this.alternate = undefined;
+    this.cursor = { x: 0, y: 0 };
+    this.savedCursor = { x: 0, y: 0 };
+    this.wrapPending = false;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rowCount - 1;
+  }
+
+  private currentRow(): Row {
+    return this.screen[this.cursor.y];
+  }
+
+  private rowText(row: Row): string {
+    return row.cells.join('').trimEnd();
+  }
+
+  private clampCursor(cursor: Cursor): Cursor {
+    return {
+      x: Math.max(0, Math.min(this.columns - 1, cursor.x)),
+      y: Math.max(0, Math.min(this.rowCount - 1, cursor.y)),
+    };
+  }
+
+  private blankRow(): Row {
+    return { cells: [], wrapped: false };
+  }
+
+  private blankRows(count: number): Row[] {
+    return Array.from({ length: count }, () => this.blankRow());
+  }
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { getSocketPath, prepareSocketPath } from './transport';
+
+describe('bridge socket path', () => {
+  const runtimeDir = process.env.XDG_RUNTIME_DIR;
+
+  afterEach(() => {
+    if (runtimeDir === undefined) {
+      delete process.env.XDG_RUNTIME_DIR;
+    } else {
+      process.env.XDG_RUNTIME_DIR = runtimeDir;
+    }
+  });
+
+  it('should use the runtime directory when there is one', () => {
+    process.env.XDG_RUNTIME_DIR = '/run/user/1000';
+
+    expect(getSocketPath(4242, 'linux')).toBe(path.join('/run/user/1000', 'terminal-hook-4242.sock'));
+  });
+
+  it('should fall back to a per-user temp directory', () => {
+    delete process.env.XDG_RUNTIME_DIR;
+
+    expect(getSocketPath(4242, 'darwin')).toBe(
+      path.join(os.tmpdir(), `terminal-hook-${os.userInfo().uid}`, 'terminal-hook-4242.sock')
+    );
+  });
+
+  it('should use a named pipe on Windows', () => {
+    expect(getSocketPath(4242, 'win32')).toBe('\\\\.\\pipe\\terminal-hook-4242');
+  });
+
+  it('should replace a stale socket', async () => {
+    if (process.platform === 'win32') {
+      return;
+    }
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+    const socketPath = path.join(dir, 'run', 'bridge.sock');
+    prepareSocketPath(socketPath);
+    fs.writeFileSync(socketPath, '');
+
+    prepareSocketPath(socketPath);
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(socketPath, resolve));
+
+    expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toBe(0o700);
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should refuse a directory others can access or that is a symlink', () => {
+    if (process.platform === 'win32') {
+      return;
+    }
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'terminal-hook-'));
+    const shared = path.join(dir, 'shared');
+    fs.mkdirSync(shared);
+    fs.chmodSync(shared, 0o755);
+    const link = path.join(dir, 'link');
+    fs.symlinkSync(dir, link);
+
+    expect(() => prepareSocketPath(path.join(shared, 'bridge.sock'))).toThrow('mode 700');
+    expect(() => prepareSocketPath(path.join(link, 'bridge.sock'))).toThrow('not a directory');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type Transport = 'tcp' | 'socket';
+
+/**
+ * Where this window's bridge socket lives: a named pipe on Windows, otherwise
+ * a Unix domain socket in the user's runtime directory. When there is no
+ * runtime directory, a per-user directory under the temp dir is used instead.
+ */
+export function getSocketPath(pid: number = process.pid, platform: NodeJS.Platform = process.platform): string {
+  if (platform === 'win32') {
+    return `\\\\.\\pipe\\terminal-hook-${pid}`;
+  }
+
+  const runtimeDir = process.env.XDG_RUNTIME_DIR || path.join(os.tmpdir(), `terminal-hook-${os.userInfo().uid}`);
+  return path.join(runtimeDir, `terminal-hook-${pid}.sock`);
+}
+
+/**
+ * Creates the socket's directory and removes a socket left behind by a crash.
+ * The directory name is predictable, so another user could create it first
+ * and get at the socket. It is only used if it is a real directory of ours
+ * that nobody else can enter, which also keeps the socket private between
+ * being bound and being chmodded.
+ */
+export function prepareSocketPath(socketPath: string): void {
+  if (socketPath.startsWith('\\\\.\\pipe\\')) {
+    return;
+  }
+
+  const dir = path.dirname(socketPath);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const stats = fs.lstatSync(dir);
+  if (!stats.isDirectory()) {
+    throw new Error(`${dir} is not a directory`);
+  }
+  if (stats.uid !== process.getuid?.()) {
+    throw new Error(`${dir} is owned by another user`);
+  }
+  if ((stats.mode & 0o777) !== 0o700) {
+    throw new Error(`${dir} must only be accessible to its owner (mode 700)`);
+  }
+
+  fs.rmSync(socketPath, { force: true });
+}